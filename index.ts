@@ -5,6 +5,7 @@ import { createServer as createHttpServer } from "http";
 import connectDB from "./config/database";
 import { handleDemo } from "./routes/demo";
 import { initializeSocket } from "./socket";
+import { requestId, notFoundHandler, errorHandler } from "./middleware/errorHandler";
 
 export async function createServer() {
   const app = express();
@@ -25,6 +26,7 @@ export async function createServer() {
       credentials: true,
     })
   );
+  app.use(requestId);
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -46,6 +48,13 @@ export async function createServer() {
     (await import("./routes/notifications")).default
   );
   app.use("/api/upload", (await import("./routes/upload")).default);
+  app.use("/api/price-alerts", (await import("./routes/priceAlerts")).default);
+  app.use("/api/bookings", (await import("./routes/bookings")).default);
+  app.use("/api/admin", (await import("./routes/admin")).default);
+
+  // Errors from every route above end up here
+  app.use("/api", notFoundHandler);
+  app.use(errorHandler);
 
   return { app, server };
 }
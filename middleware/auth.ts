@@ -1,43 +1,60 @@
-import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
+import { AuthTokenService } from '../services/authTokenService';
+import { ForbiddenError, UnauthorizedError } from '../utils/httpErrors';
 
 interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string;
 }
 
-export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticate = async (req: AuthRequest, _res: Response, next: NextFunction) => {
+  const token = req.header('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return next(new UnauthorizedError('Login to send message'));
+  }
+
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
-    
-    if (!token) {
-      return res.status(401).json({ message: 'Login to send message' });
+    // Rejects expired tokens and tokens whose session was logged out or revoked
+    const payload = await AuthTokenService.verifyAccessToken(token);
+    if (!payload) {
+      return next(new UnauthorizedError('Login to send message'));
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    const user = await User.findById(decoded.id);
-    
+    const user = await User.findById(payload.id);
     if (!user) {
-      return res.status(401).json({ message: 'Login to send message' });
+      return next(new UnauthorizedError('Login to send message'));
+    }
+    if (!user.isActive) {
+      return next(new UnauthorizedError('Account is deactivated'));
     }
 
     req.user = user;
+    req.sessionId = payload.sid;
     next();
   } catch (error) {
-    res.status(401).json({ message: 'Login to send message' });
+    next(error);
   }
 };
 
 export const authorize = (roles: string[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
+  return (req: AuthRequest, _res: Response, next: NextFunction) => {
     if (!req.user) {
-      return res.status(401).json({ message: 'Access denied.' });
+      return next(new UnauthorizedError('Access denied.'));
     }
 
     if (!roles.includes(req.user.role)) {
-      return res.status(403).json({ message: 'Insufficient permissions.' });
+      return next(new ForbiddenError('Insufficient permissions.'));
     }
 
     next();
   };
-};
\ No newline at end of file
+};
+
+// Any account must verify its email before publishing or changing listings
+export const requireVerifiedSeller = (req: AuthRequest, _res: Response, next: NextFunction) => {
+  if (req.user && !req.user.isVerified) {
+    return next(new ForbiddenError('Verify your email address to manage listings'));
+  }
+  next();
+};
@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import {
+  HttpError,
+  BadRequestError,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../utils/httpErrors';
+
+// Tag each request so client-visible errors can be matched to server logs
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const id = req.header('X-Request-Id') || randomUUID();
+  (req as any).id = id;
+  res.setHeader('X-Request-Id', id);
+  next();
+};
+
+// router.param('id', validateObjectId) rejects malformed ids before the handler runs
+export const validateObjectId = (_req: Request, _res: Response, next: NextFunction, value: string, name: string) => {
+  if (!mongoose.isValidObjectId(value)) {
+    return next(new BadRequestError(`Invalid ${name}`, { [name]: value }));
+  }
+  next();
+};
+
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route ${req.method} ${req.originalUrl} not found`));
+};
+
+// Map known error types to an HTTP error; everything else becomes a 500
+const toHttpError = (error: any): HttpError => {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  if (error.name === 'ZodError') {
+    return new ValidationError('Invalid input', error.errors);
+  }
+  if (error.name === 'CastError') {
+    return new BadRequestError(`Invalid ${error.path}`, { [error.path]: error.value });
+  }
+  if (error.name === 'ValidationError' && error.errors) {
+    const details = Object.values(error.errors).map((err: any) => ({ path: err.path, message: err.message }));
+    return new ValidationError('Invalid input', details);
+  }
+  if (error.code === 11000) {
+    return new ConflictError('Duplicate value', error.keyValue);
+  }
+  if (error.name === 'MulterError') {
+    return new BadRequestError(error.message, { field: error.field });
+  }
+  if (error.type === 'entity.parse.failed') {
+    return new BadRequestError('Malformed JSON body');
+  }
+
+  return new HttpError(500, 'INTERNAL_ERROR', 'Internal server error');
+};
+
+export const errorHandler = (error: any, req: Request, res: Response, next: NextFunction) => {
+  const httpError = toHttpError(error);
+  const id = (req as any).id;
+
+  if (httpError.status >= 500) {
+    console.error(`[${id}] ${req.method} ${req.originalUrl}`, error);
+  }
+
+  // Too late for a JSON body; let Express close the connection
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  res.status(httpError.status).json({
+    code: httpError.code,
+    message: httpError.message,
+    details: httpError.details ?? null,
+    requestId: id
+  });
+};
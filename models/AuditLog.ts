@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const AUDIT_ACTIONS = [
+  'users.list',
+  'users.view',
+  'users.suspend',
+  'users.reactivate',
+  'users.verifyDealer',
+  'users.unverifyDealer',
+  'cars.list',
+  'cars.takedown',
+  'cars.restore',
+  'reports.list',
+  'reports.view',
+  'reports.resolve',
+  'messages.list',
+  'auditLog.list'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface IAuditLog extends Document {
+  actor: mongoose.Types.ObjectId;
+  action: AuditAction;
+  targetType?: 'user' | 'car' | 'message';
+  targetId?: mongoose.Types.ObjectId;
+  reason?: string;
+  metadata: Record<string, any>;
+  ip?: string;
+  requestId?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>({
+  // Admin who performed the action
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: ['user', 'car', 'message']
+  },
+  targetId: {
+    type: Schema.Types.ObjectId
+  },
+  reason: String,
+  // Query filters for reads, before/after values for changes
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  ip: String,
+  requestId: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  minimize: false
+});
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
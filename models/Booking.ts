@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBookingLocation {
+  address?: string;
+  city: string;
+  state: string;
+}
+
+export interface IBooking extends Document {
+  car: mongoose.Types.ObjectId;
+  renter: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  pickupDate: Date;
+  returnDate: Date;
+  pickupLocation: IBookingLocation;
+  returnLocation: IBookingLocation;
+  status: 'pending' | 'confirmed' | 'active' | 'completed' | 'cancelled';
+  dailyRate: number;
+  days: number;
+  totalPrice: number;
+  priceBreakdown?: Record<string, any>;
+  notes?: string;
+  checkedOutAt?: Date;
+  checkedInAt?: Date;
+  extraCharges?: number;
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const locationSchema = new Schema<IBookingLocation>({
+  address: { type: String },
+  city: { type: String, required: true },
+  state: { type: String, required: true }
+}, { _id: false });
+
+const bookingSchema = new Schema<IBooking>({
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  },
+  renter: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Seller of the car when the booking was made
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  pickupDate: {
+    type: Date,
+    required: true
+  },
+  returnDate: {
+    type: Date,
+    required: true
+  },
+  pickupLocation: {
+    type: locationSchema,
+    required: true
+  },
+  returnLocation: {
+    type: locationSchema,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'active', 'completed', 'cancelled'],
+    default: 'confirmed'
+  },
+  dailyRate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  days: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  totalPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Itemized quote from the rental pricing engine at booking time
+  priceBreakdown: {
+    type: Schema.Types.Mixed
+  },
+  notes: {
+    type: String,
+    maxlength: 1000
+  },
+  checkedOutAt: Date,
+  checkedInAt: Date,
+  // Mileage and fuel charges from the check-in inspection
+  extraCharges: {
+    type: Number,
+    min: 0
+  },
+  cancelledAt: Date,
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancellationReason: String
+}, {
+  timestamps: true
+});
+
+bookingSchema.index({ car: 1, status: 1, pickupDate: 1, returnDate: 1 });
+bookingSchema.index({ renter: 1, pickupDate: -1 });
+bookingSchema.index({ vendor: 1, pickupDate: -1 });
+
+export default mongoose.model<IBooking>('Booking', bookingSchema);
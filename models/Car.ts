@@ -1,5 +1,13 @@
 import mongoose from 'mongoose';
 
+export const DAMAGE_AREAS = ['front', 'rear', 'left-side', 'right-side', 'roof', 'undercarriage'] as const;
+export const DAMAGE_SEVERITIES = ['minor', 'moderate', 'major'] as const;
+export const SERVICE_TYPES = ['oil-change', 'brake-service', 'tire-rotation', 'transmission-service', 'engine-repair', 'electrical-repair', 'bodywork', 'inspection', 'other'] as const;
+export const OWNERSHIP_TYPES = ['personal', 'fleet', 'rental', 'lease-return', 'government', 'taxi-uber'] as const;
+export const TITLE_STATUSES = ['clean', 'salvage', 'flood', 'lemon', 'rebuilt', 'other'] as const;
+// Best to worst
+export const CREDIT_TIERS = ['excellent', 'good', 'fair', 'poor'] as const;
+
 const carSchema = new mongoose.Schema({
   // Basic Info
   make: { type: String, required: true, index: true },
@@ -69,13 +77,15 @@ const carSchema = new mongoose.Schema({
   
   // Ownership History
   ownershipHistory: {
-    vin: { type: String, unique: true, sparse: true },
+    // Not unique: the same car is relisted after a sale. Live duplicates from other
+    // sellers are flagged by the listing risk check instead.
+    vin: { type: String, index: true, sparse: true },
     serviceRecords: [{
       date: Date,
       mileage: Number,
       serviceType: { 
         type: String, 
-        enum: ['oil-change', 'brake-service', 'tire-rotation', 'transmission-service', 'engine-repair', 'electrical-repair', 'bodywork', 'inspection', 'other']
+        enum: SERVICE_TYPES
       },
       description: String,
       cost: Number,
@@ -83,20 +93,20 @@ const carSchema = new mongoose.Schema({
     }],
     accidentRecords: [{
       date: Date,
-      severity: { type: String, enum: ['minor', 'moderate', 'major'] },
+      severity: { type: String, enum: DAMAGE_SEVERITIES },
       description: String,
-      damageAreas: [{ type: String, enum: ['front', 'rear', 'left-side', 'right-side', 'roof', 'undercarriage'] }],
+      damageAreas: [{ type: String, enum: DAMAGE_AREAS }],
       repairCost: Number,
       insuranceClaim: Boolean
     }],
     previousOwners: { type: Number, default: 1, min: 1 },
     ownershipType: { 
       type: String, 
-      enum: ['personal', 'fleet', 'rental', 'lease-return', 'government', 'taxi-uber']
+      enum: OWNERSHIP_TYPES
     },
     titleStatus: { 
       type: String, 
-      enum: ['clean', 'salvage', 'flood', 'lemon', 'rebuilt', 'other'],
+      enum: TITLE_STATUSES,
       default: 'clean'
     }
   },
@@ -117,12 +127,28 @@ const carSchema = new mongoose.Schema({
       roadside: { type: Boolean, default: false }
     }
   },
+  rental: {
+    available: { type: Boolean, default: false },
+    dailyRate: { type: Number, min: 0 }
+  },
+  // The headline terms mirror the lowest-APR current offer and are recalculated
+  // whenever the offers or the price change
   financing: {
     available: { type: Boolean, default: false },
     downPayment: Number,
     monthlyPayment: Number,
     term: Number,
-    apr: Number
+    apr: Number,
+    offers: [{
+      name: { type: String, required: true },
+      lender: String,
+      apr: { type: Number, required: true, min: 0 },
+      termMonths: { type: Number, required: true, min: 1 },
+      minDownPaymentPercent: { type: Number, default: 0, min: 0, max: 100 },
+      minCreditTier: { type: String, enum: CREDIT_TIERS },
+      validUntil: Date,
+      active: { type: Boolean, default: true }
+    }]
   },
   
   // Seller Info
@@ -130,7 +156,39 @@ const carSchema = new mongoose.Schema({
   sellerType: { type: String, enum: ['private', 'dealer'], default: 'private' },
   
   // Status & Analytics
-  status: { type: String, enum: ['active', 'sold', 'pending', 'inactive'], default: 'active', index: true },
+  status: { type: String, enum: ['active', 'sold', 'pending', 'inactive', 'under_review', 'removed'], default: 'active', index: true },
+  // Set when the listing was deactivated along with the seller's account, so it can be restored
+  hiddenWithAccount: { type: Boolean, default: false },
+  // Latest platform moderation action. Listings that are `under_review` (too many buyer
+  // reports or a high risk score) or `removed` can only be put back by an admin.
+  moderation: {
+    action: { type: String, enum: ['review', 'takedown', 'restore'] },
+    reason: String,
+    actionedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    actionedAt: Date,
+    previousStatus: String
+  },
+  // Automated quality/fraud check, refreshed on every create and update. Only the
+  // seller and admins see it, so it's left out of queries unless asked for.
+  riskAssessment: {
+    type: new mongoose.Schema({
+      score: { type: Number, min: 0, max: 100 },
+      level: { type: String, enum: ['low', 'medium', 'high'] },
+      reasons: [{
+        code: String,
+        message: String,
+        points: Number
+      }],
+      assessedAt: Date,
+      // Set when an admin puts a flagged listing back; later screens only flag it
+      // again when the score rises or a new reason appears
+      clearedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+      clearedAt: Date,
+      clearedScore: Number,
+      clearedReasons: [String]
+    }, { _id: false }),
+    select: false
+  },
   views: { type: Number, default: 0 },
   inquiries: { type: Number, default: 0 },
   favorites: { type: Number, default: 0 },
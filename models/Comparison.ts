@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IComparison extends Document {
+  shortId: string;
+  cars: mongoose.Types.ObjectId[];
+  carsKey: string;
+  views: number;
+  lastViewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const comparisonSchema = new Schema<IComparison>({
+  // Public id used in share links
+  shortId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // In the order the cars were first compared
+  cars: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Car' }],
+    required: true
+  },
+  // Sorted car ids, so comparing the same cars again reuses the comparison
+  carsKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  views: {
+    type: Number,
+    default: 0
+  },
+  lastViewedAt: Date
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IComparison>('Comparison', comparisonSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFavorite extends Document {
+  user: mongoose.Types.ObjectId;
+  car: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const favoriteSchema = new Schema<IFavorite>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One favorite per user per car
+favoriteSchema.index({ user: 1, car: 1 }, { unique: true });
+favoriteSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IFavorite>('Favorite', favoriteSchema);
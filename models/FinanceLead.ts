@@ -0,0 +1,126 @@
+import mongoose, { Schema } from 'mongoose';
+import { CREDIT_TIERS } from './Car';
+
+export const EMPLOYMENT_STATUSES = ['employed', 'self-employed', 'retired', 'student', 'unemployed'] as const;
+export const FINANCE_LEAD_STATUSES = ['new', 'contacted', 'approved', 'declined', 'closed'] as const;
+
+// Leads the vendor is still working on; a buyer resubmitting updates the open lead
+export const OPEN_LEAD_STATUSES = ['new', 'contacted'];
+
+export type CreditTier = typeof CREDIT_TIERS[number];
+export type FinanceLeadStatus = typeof FINANCE_LEAD_STATUSES[number];
+
+export interface IFinanceLead {
+  car: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  buyer: mongoose.Types.ObjectId;
+  applicant: {
+    name: string;
+    email: string;
+    phone?: string;
+  };
+  employmentStatus: typeof EMPLOYMENT_STATUSES[number];
+  annualIncome: number;
+  monthlyDebtPayments: number;
+  creditTier: CreditTier;
+  // Offer and quote as the buyer saw them; later edits to the listing don't change the lead
+  offer?: {
+    offerId: mongoose.Types.ObjectId;
+    name: string;
+    lender?: string;
+  };
+  quote: Record<string, any>;
+  debtToIncome: number;
+  result: 'prequalified' | 'needs-review';
+  reasons: string[];
+  message?: string;
+  status: FinanceLeadStatus;
+  statusNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const financeLeadSchema = new Schema<IFinanceLead>({
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  },
+  // Seller of the car when the form was submitted
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  buyer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  applicant: {
+    name: { type: String, required: true, trim: true },
+    email: { type: String, required: true, trim: true, lowercase: true },
+    phone: { type: String, trim: true }
+  },
+  employmentStatus: {
+    type: String,
+    enum: EMPLOYMENT_STATUSES,
+    required: true
+  },
+  annualIncome: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  monthlyDebtPayments: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  creditTier: {
+    type: String,
+    enum: CREDIT_TIERS,
+    required: true
+  },
+  offer: {
+    offerId: Schema.Types.ObjectId,
+    name: String,
+    lender: String
+  },
+  quote: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  debtToIncome: {
+    type: Number,
+    required: true
+  },
+  result: {
+    type: String,
+    enum: ['prequalified', 'needs-review'],
+    required: true
+  },
+  reasons: [String],
+  message: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  status: {
+    type: String,
+    enum: FINANCE_LEAD_STATUSES,
+    default: 'new'
+  },
+  statusNote: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  }
+}, {
+  timestamps: true
+});
+
+financeLeadSchema.index({ vendor: 1, status: 1, createdAt: -1 });
+financeLeadSchema.index({ car: 1, buyer: 1 });
+
+export default mongoose.model<IFinanceLead>('FinanceLead', financeLeadSchema);
@@ -0,0 +1,111 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DAMAGE_AREAS, DAMAGE_SEVERITIES } from './Car';
+
+export type DamageArea = typeof DAMAGE_AREAS[number];
+export type DamageSeverity = typeof DAMAGE_SEVERITIES[number];
+
+export interface IDamageItem {
+  area: DamageArea;
+  severity: DamageSeverity;
+  description?: string;
+  photos: string[];
+}
+
+export interface IInspection extends Document {
+  booking: mongoose.Types.ObjectId;
+  car: mongoose.Types.ObjectId;
+  type: 'checkout' | 'checkin';
+  inspector: mongoose.Types.ObjectId;
+  odometer: number;
+  fuelLevel: number;
+  damage: IDamageItem[];
+  photos: string[];
+  notes?: string;
+  // Check-in only
+  newDamage?: IDamageItem[];
+  charges?: {
+    milesDriven: number;
+    includedMiles: number | null;
+    extraMiles: number;
+    mileageCharge: number;
+    fuelShortfall: number;
+    fuelCharge: number;
+    total: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const damageItemSchema = new Schema<IDamageItem>({
+  area: { type: String, enum: DAMAGE_AREAS, required: true },
+  severity: { type: String, enum: DAMAGE_SEVERITIES, required: true },
+  description: { type: String, maxlength: 500 },
+  photos: [{ type: String }]
+}, { _id: false });
+
+const inspectionSchema = new Schema<IInspection>({
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['checkout', 'checkin'],
+    required: true
+  },
+  inspector: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  odometer: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Eighths of a tank (or battery): 0 = empty, 8 = full
+  fuelLevel: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 8
+  },
+  damage: [damageItemSchema],
+  // Overall vehicle photos from POST /api/upload/images
+  photos: [{ type: String }],
+  notes: {
+    type: String,
+    maxlength: 2000
+  },
+  // Damage found at check-in that wasn't recorded at check-out
+  newDamage: {
+    type: [damageItemSchema],
+    default: undefined
+  },
+  charges: {
+    type: new Schema({
+      milesDriven: Number,
+      includedMiles: Number,
+      extraMiles: Number,
+      mileageCharge: Number,
+      fuelShortfall: Number,
+      fuelCharge: Number,
+      total: Number
+    }, { _id: false }),
+    default: undefined
+  }
+}, {
+  timestamps: true
+});
+
+// One check-out and one check-in per booking
+inspectionSchema.index({ booking: 1, type: 1 }, { unique: true });
+inspectionSchema.index({ car: 1, createdAt: -1 });
+
+export default mongoose.model<IInspection>('Inspection', inspectionSchema);
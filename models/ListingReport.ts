@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const REPORT_REASONS = ['scam', 'wrong-price', 'already-sold', 'offensive-images', 'misleading-details', 'other'] as const;
+export const REPORT_RESOLUTIONS = ['dismiss', 'warn', 'takedown'] as const;
+
+// Listings pulled by the automated risk check are queued under their own reason
+export const AUTOMATED_REPORT_REASON = 'high-risk';
+
+export type ReportReason = typeof REPORT_REASONS[number] | typeof AUTOMATED_REPORT_REASON;
+export type ReportResolution = typeof REPORT_RESOLUTIONS[number];
+
+export interface IListingReport {
+  car: mongoose.Types.ObjectId;
+  source: 'buyer' | 'automated';
+  reporter?: mongoose.Types.ObjectId;
+  reason: ReportReason;
+  details?: string;
+  status: 'open' | 'resolved';
+  resolution?: {
+    action: ReportResolution;
+    note?: string;
+    resolvedBy: mongoose.Types.ObjectId;
+    resolvedAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const listingReportSchema = new Schema<IListingReport>({
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['buyer', 'automated'],
+    default: 'buyer'
+  },
+  reporter: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: function (this: IListingReport) { return this.source === 'buyer'; }
+  },
+  reason: {
+    type: String,
+    enum: [...REPORT_REASONS, AUTOMATED_REPORT_REASON],
+    required: true
+  },
+  details: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  status: {
+    type: String,
+    enum: ['open', 'resolved'],
+    default: 'open'
+  },
+  // Set when an admin resolves every open report of the car at once
+  resolution: {
+    action: { type: String, enum: REPORT_RESOLUTIONS },
+    note: String,
+    resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    resolvedAt: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One open report per user and listing
+listingReportSchema.index(
+  { car: 1, reporter: 1 },
+  { unique: true, partialFilterExpression: { status: 'open', reporter: { $exists: true } } }
+);
+listingReportSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model<IListingReport>('ListingReport', listingReportSchema);
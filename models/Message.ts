@@ -9,6 +9,8 @@ export interface IMessage extends Document {
   status: 'unread' | 'read' | 'replied';
   priority: 'low' | 'medium' | 'high';
   carId?: mongoose.Types.ObjectId;
+  sellerId?: mongoose.Types.ObjectId;
+  tradeIn?: mongoose.Types.ObjectId;
   conversation: Array<{
     sender: 'user' | 'admin';
     content: string;
@@ -57,6 +59,18 @@ const messageSchema = new Schema<IMessage>({
     ref: 'Car',
     required: false
   },
+  // Seller of carId at the time the thread was opened; threads without a car are handled by platform admins
+  sellerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
+  // Trade-in the buyer submitted with the inquiry
+  tradeIn: {
+    type: Schema.Types.ObjectId,
+    ref: 'TradeIn',
+    required: false
+  },
   conversation: [{
     sender: {
       type: String,
@@ -79,5 +93,6 @@ const messageSchema = new Schema<IMessage>({
 
 messageSchema.index({ userId: 1, createdAt: -1 });
 messageSchema.index({ status: 1, createdAt: -1 });
+messageSchema.index({ sellerId: 1, updatedAt: -1 });
 
 export default mongoose.model<IMessage>('Message', messageSchema);
\ No newline at end of file
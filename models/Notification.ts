@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface INotification extends Document {
+  user: mongoose.Types.ObjectId;
+  type: string;
+  priority: 'low' | 'medium' | 'high';
+  message: string;
+  data: Record<string, any>;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Socket.IO event name the notification was emitted as
+  type: {
+    type: String,
+    required: true
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  message: {
+    type: String,
+    default: ''
+  },
+  // Full event payload as it was emitted
+  data: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, read: 1 });
+// Drop notifications after 90 days
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Not extending Document: its `model` property would clash with the car model field
+export interface IPriceAlert {
+  user: mongoose.Types.ObjectId;
+  make: string;
+  model?: string;
+  maxPrice: number;
+  location?: string;
+  active: boolean;
+  cooldownHours: number;
+  lastTriggeredAt?: Date;
+  triggerCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const priceAlertSchema = new Schema<IPriceAlert>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  make: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  model: {
+    type: String,
+    trim: true
+  },
+  maxPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // "City" or "City, State"
+  location: {
+    type: String,
+    trim: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  // Minimum time between two notifications for the same alert
+  cooldownHours: {
+    type: Number,
+    default: 24,
+    min: 0
+  },
+  lastTriggeredAt: Date,
+  triggerCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+priceAlertSchema.index({ user: 1, createdAt: -1 });
+priceAlertSchema.index({ active: 1, maxPrice: 1 });
+
+export default mongoose.model<IPriceAlert>('PriceAlert', priceAlertSchema);
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPricingRules extends Document {
+  vendor: mongoose.Types.ObjectId;
+  baseDailyRate?: number;
+  weekendMultiplier: number;
+  weekendDays: number[];
+  seasonalRates: Array<{
+    name: string;
+    start: string;
+    end: string;
+    multiplier: number;
+  }>;
+  lengthOfStayDiscounts: Array<{
+    minDays: number;
+    percent: number;
+  }>;
+  mileage: {
+    includedPerDay?: number;
+    overageRate: number;
+  };
+  oneWayFee: number;
+  taxRate: number;
+  fuel: {
+    chargePerEighth: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pricingRulesSchema = new Schema<IPricingRules>({
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  // Used for cars that don't set rental.dailyRate
+  baseDailyRate: {
+    type: Number,
+    min: 0
+  },
+  weekendMultiplier: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  // Days of week (0 = Sunday) charged at the weekend rate
+  weekendDays: {
+    type: [Number],
+    default: [5, 6]
+  },
+  // start/end are MM-DD and may wrap the new year, e.g. 12-15 to 01-05
+  seasonalRates: [{
+    name: { type: String, required: true },
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+    multiplier: { type: Number, required: true, min: 0 }
+  }],
+  lengthOfStayDiscounts: {
+    type: [{
+      minDays: { type: Number, required: true, min: 1 },
+      percent: { type: Number, required: true, min: 0, max: 100 }
+    }],
+    default: [
+      { minDays: 7, percent: 10 },
+      { minDays: 30, percent: 20 }
+    ]
+  },
+  mileage: {
+    includedPerDay: { type: Number, min: 0 }, // unset means unlimited
+    overageRate: { type: Number, default: 0, min: 0 } // per mile
+  },
+  oneWayFee: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Percent applied to the pre-tax total
+  taxRate: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  // Applied at check-in when the car comes back with less fuel than at pickup
+  fuel: {
+    chargePerEighth: { type: Number, default: 0, min: 0 } // per eighth of a tank
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IPricingRules>('PricingRules', pricingRulesSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISavedSearch extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  filters: Record<string, any>;
+  notifiedCars: mongoose.Types.ObjectId[];
+  lastMatchedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearch>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // Same filter keys accepted by SearchService.advancedSearch
+  filters: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  // Latest cars the owner has been notified about for this search, capped by SearchService
+  notifiedCars: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Car' }],
+    select: false
+  },
+  lastMatchedAt: Date
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+savedSearchSchema.index({ user: 1, createdAt: -1 });
+// Candidate lookup when a car is listed
+savedSearchSchema.index({ 'filters.bodyType': 1, 'filters.maxPrice': 1 });
+
+export default mongoose.model<ISavedSearch>('SavedSearch', savedSearchSchema);
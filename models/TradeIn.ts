@@ -0,0 +1,118 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const TRADE_IN_CONDITIONS = ['excellent', 'good', 'fair', 'poor'] as const;
+export const TRADE_IN_STATUSES = ['submitted', 'offered', 'accepted', 'declined'] as const;
+
+export type TradeInCondition = typeof TRADE_IN_CONDITIONS[number];
+export type TradeInStatus = typeof TRADE_IN_STATUSES[number];
+
+export interface ITradeIn {
+  car: mongoose.Types.ObjectId;
+  buyer: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  // Message thread the trade-in was submitted with
+  message: mongoose.Types.ObjectId;
+  vehicle: {
+    make: string;
+    model: string;
+    year: number;
+    mileage: number;
+    condition: TradeInCondition;
+    photos: string[];
+  };
+  // Absent when there were no comparable listings to price against
+  estimate?: {
+    value: number;
+    low: number;
+    high: number;
+    confidence: 'low' | 'medium' | 'high';
+    marketPrice: number;
+    comparables: { active: number; sold: number; sameYear: boolean };
+    adjustments: Array<{ code: string; label: string; amount: number }>;
+    estimatedAt: Date;
+  };
+  // Latest counter-offer from the vendor
+  offer?: {
+    amount: number;
+    note?: string;
+    offeredAt: Date;
+  };
+  status: TradeInStatus;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const tradeInSchema = new Schema<ITradeIn>({
+  car: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: true
+  },
+  buyer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  message: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message',
+    required: true
+  },
+  vehicle: {
+    make: { type: String, required: true, trim: true },
+    model: { type: String, required: true, trim: true },
+    year: { type: Number, required: true },
+    mileage: { type: Number, required: true, min: 0 },
+    condition: { type: String, enum: TRADE_IN_CONDITIONS, required: true },
+    photos: [String]
+  },
+  estimate: {
+    type: {
+      value: Number,
+      low: Number,
+      high: Number,
+      confidence: { type: String, enum: ['low', 'medium', 'high'] },
+      marketPrice: Number,
+      comparables: {
+        active: Number,
+        sold: Number,
+        sameYear: Boolean
+      },
+      adjustments: [{
+        _id: false,
+        code: String,
+        label: String,
+        amount: Number
+      }],
+      estimatedAt: Date
+    },
+    required: false
+  },
+  offer: {
+    type: {
+      amount: { type: Number, required: true, min: 0 },
+      note: { type: String, trim: true, maxlength: 1000 },
+      offeredAt: { type: Date, default: Date.now }
+    },
+    required: false
+  },
+  status: {
+    type: String,
+    enum: TRADE_IN_STATUSES,
+    default: 'submitted'
+  },
+  respondedAt: Date
+}, {
+  timestamps: true
+});
+
+tradeInSchema.index({ vendor: 1, status: 1, createdAt: -1 });
+tradeInSchema.index({ message: 1 }, { unique: true });
+
+export default mongoose.model<ITradeIn>('TradeIn', tradeInSchema);
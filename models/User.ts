@@ -5,14 +5,42 @@ const userSchema = new mongoose.Schema({
   email: { type: String, required: true, unique: true },
   password: { type: String, required: true, select: false },
   phone: { type: String, required: true },
-  role: { type: String, enum: ['user', 'vendor'], default: 'user' },
+  role: { type: String, enum: ['user', 'vendor', 'admin'], default: 'user' },
   isVerified: { type: Boolean, default: false },
   avatar: { type: String },
   location: { type: String },
   rating: { type: Number, default: 0 },
   reviewCount: { type: Number, default: 0 },
   responseTime: { type: String, default: 'Usually responds within 24 hours' },
-  isActive: { type: Boolean, default: true }
+  isActive: { type: Boolean, default: true },
+  // Set when an admin suspends the account (isActive is false while suspended)
+  suspension: {
+    reason: String,
+    suspendedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    suspendedAt: Date
+  },
+  // Dealer identity checked by a platform admin
+  dealerVerification: {
+    verified: { type: Boolean, default: false },
+    verifiedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    verifiedAt: Date
+  },
+  // Id of the only email verification / password reset token that is still usable
+  emailVerificationTokenId: { type: String, select: false },
+  passwordResetTokenId: { type: String, select: false },
+  passwordResetRequestedAt: { type: Date, select: false },
+  passwordChangedAt: { type: Date },
+  notificationPreferences: {
+    // Per-event toggles keyed by Socket.IO event name; missing keys are enabled
+    events: { type: Map, of: Boolean, default: {} },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00' }, // HH:mm
+      end: { type: String, default: '07:00' }, // HH:mm
+      timezone: { type: String, default: 'UTC' }
+    },
+    digestFrequency: { type: String, enum: ['daily', 'weekly', 'never'], default: 'daily' }
+  }
 }, {
   timestamps: true
 });
@@ -0,0 +1,117 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth";
+import { validateObjectId } from "../middleware/errorHandler";
+import {
+  AdminService,
+  AdminContext,
+  moderationReasonSchema,
+  optionalReasonSchema,
+  dealerVerificationSchema,
+  reportResolutionSchema
+} from "../services/adminService";
+import { asyncHandler } from "../utils/asyncHandler";
+
+const router = Router();
+
+router.param("id", validateObjectId);
+
+// Every route here is for platform admins only
+router.use(authenticate, authorize(['admin']));
+
+const adminContext = (req: any): AdminContext => ({
+  admin: req.user,
+  ip: req.ip,
+  requestId: req.id
+});
+
+// GET /api/admin/users - List and search users
+router.get("/users", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.listUsers(adminContext(req), req.query);
+  res.json(result);
+}));
+
+// GET /api/admin/users/:id - User details with listing counts
+router.get("/users/:id", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.getUser(adminContext(req), req.params.id);
+  res.json(result);
+}));
+
+// POST /api/admin/users/:id/suspend - Suspend an account and hide its listings
+router.post("/users/:id/suspend", asyncHandler(async (req: any, res) => {
+  const { reason } = moderationReasonSchema.parse(req.body);
+  const user = await AdminService.suspendUser(adminContext(req), req.params.id, reason);
+
+  res.json({ message: "User suspended", user });
+}));
+
+// POST /api/admin/users/:id/reactivate - Reactivate a suspended or deactivated account
+router.post("/users/:id/reactivate", asyncHandler(async (req: any, res) => {
+  const { reason } = optionalReasonSchema.parse(req.body ?? {});
+  const user = await AdminService.reactivateUser(adminContext(req), req.params.id, reason);
+
+  res.json({ message: "User reactivated", user });
+}));
+
+// POST /api/admin/users/:id/verify-dealer - Mark a vendor as a verified dealer (or revoke it)
+router.post("/users/:id/verify-dealer", asyncHandler(async (req: any, res) => {
+  const { verified } = dealerVerificationSchema.parse(req.body ?? {});
+  const user = await AdminService.setDealerVerification(adminContext(req), req.params.id, verified);
+
+  res.json({ message: verified ? "Dealer verified" : "Dealer verification removed", user });
+}));
+
+// GET /api/admin/cars - Listings in any status
+router.get("/cars", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.listCars(adminContext(req), req.query);
+  res.json(result);
+}));
+
+// POST /api/admin/cars/:id/takedown - Remove a listing from the marketplace
+router.post("/cars/:id/takedown", asyncHandler(async (req: any, res) => {
+  const { reason } = moderationReasonSchema.parse(req.body);
+  const car = await AdminService.takedownCar(adminContext(req), req.params.id, reason);
+
+  res.json({ message: "Listing taken down", car });
+}));
+
+// POST /api/admin/cars/:id/restore - Restore a removed listing
+router.post("/cars/:id/restore", asyncHandler(async (req: any, res) => {
+  const { reason } = optionalReasonSchema.parse(req.body ?? {});
+  const car = await AdminService.restoreCar(adminContext(req), req.params.id, reason);
+
+  res.json({ message: "Listing restored", car });
+}));
+
+// GET /api/admin/reports - Moderation queue of listings with open reports
+router.get("/reports", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.getReportQueue(adminContext(req), req.query);
+  res.json(result);
+}));
+
+// GET /api/admin/reports/cars/:id - Every report about a listing
+router.get("/reports/cars/:id", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.getCarReports(adminContext(req), req.params.id);
+  res.json(result);
+}));
+
+// POST /api/admin/reports/cars/:id/resolve - Dismiss, warn the seller or take the listing down
+router.post("/reports/cars/:id/resolve", asyncHandler(async (req: any, res) => {
+  const resolution = reportResolutionSchema.parse(req.body);
+  const result = await AdminService.resolveReports(adminContext(req), req.params.id, resolution);
+
+  res.json({ message: "Reports resolved", ...result });
+}));
+
+// GET /api/admin/messages - Every message thread on the platform
+router.get("/messages", asyncHandler(async (req: any, res) => {
+  const threads = await AdminService.listThreads(adminContext(req), req.query);
+  res.json(threads);
+}));
+
+// GET /api/admin/audit-log - Admin actions, newest first
+router.get("/audit-log", asyncHandler(async (req: any, res) => {
+  const result = await AdminService.getAuditLog(adminContext(req), req.query);
+  res.json(result);
+}));
+
+export default router;
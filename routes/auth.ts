@@ -1,9 +1,18 @@
 import { Router } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { z } from "zod";
 import User from "../models/User";
 import { authenticate } from "../middleware/auth";
+import { AuthTokenService } from "../services/authTokenService";
+import {
+  AccountService,
+  profileUpdateSchema,
+  changePasswordSchema,
+  deactivateSchema
+} from "../services/accountService";
+import { disconnectSessions, disconnectOtherSessions } from "../socket";
+import { asyncHandler } from "../utils/asyncHandler";
+import { ConflictError, ForbiddenError, UnauthorizedError } from "../utils/httpErrors";
 
 const router = Router();
 
@@ -20,89 +29,183 @@ const loginSchema = z.object({
   password: z.string().min(1)
 });
 
-router.post("/register", async (req, res) => {
-  try {
-    console.log('Register request body:', req.body);
-    const { name, email, password, phone, role } = registerSchema.parse(req.body);
-    
-    const existingUser = await User.findOne({ email });
-    if (existingUser) {
-      return res.status(400).json({ message: "User already exists" });
-    }
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
 
-    const hashedPassword = await bcrypt.hash(password, 12);
-    
-    const user = new User({
-      name,
-      email,
-      password: hashedPassword,
-      phone,
-      role
-    });
-
-    await user.save();
-
-    const token = jwt.sign(
-      { id: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN }
-    );
-
-    res.status(201).json({
-      message: "User registered successfully",
-      token,
-      user
-    });
-  } catch (error: any) {
-    console.error('Registration error:', error);
-    if (error.name === 'ZodError') {
-      return res.status(400).json({ message: "Invalid input", errors: error.errors });
-    }
-    res.status(500).json({ message: "Server error", error: error.message });
-  }
+const verifyEmailSchema = z.object({
+  token: z.string().min(1)
 });
 
-router.post("/login", async (req, res) => {
-  try {
-    const { email, password } = loginSchema.parse(req.body);
-    
-    const user = await User.findOne({ email }).select('+password');
-    if (!user) {
-      return res.status(401).json({ message: "Invalid credentials" });
-    }
+const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      return res.status(401).json({ message: "Invalid credentials" });
-    }
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6)
+});
+
+const sessionMeta = (req: any) => ({
+  userAgent: req.get('User-Agent'),
+  ip: req.ip
+});
+
+router.post("/register", asyncHandler(async (req, res) => {
+  const { name, email, password, phone, role } = registerSchema.parse(req.body);
+  
+  const existingUser = await User.findOne({ email });
+  if (existingUser) {
+    throw new ConflictError("User already exists");
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 12);
+  
+  const user = new User({
+    name,
+    email,
+    password: hashedPassword,
+    phone,
+    role
+  });
+
+  await user.save();
+
+  // Registration succeeds even if the mail can't be sent; the user can ask for a new link
+  AccountService.sendVerificationEmail(user).catch(error => {
+    console.error('Verification email error:', error);
+  });
+
+  const tokens = await AuthTokenService.issueTokens(user, sessionMeta(req));
+
+  res.status(201).json({
+    message: "User registered successfully",
+    ...tokens,
+    user
+  });
+}));
+
+router.post("/login", asyncHandler(async (req, res) => {
+  const { email, password } = loginSchema.parse(req.body);
+  
+  const user = await User.findOne({ email }).select('+password');
+  if (!user) {
+    throw new UnauthorizedError("Invalid credentials");
+  }
+
+  const isPasswordValid = await bcrypt.compare(password, user.password);
+  if (!isPasswordValid) {
+    throw new UnauthorizedError("Invalid credentials");
+  }
+
+  if (!user.isActive) {
+    throw new ForbiddenError("Account is deactivated");
+  }
 
-    const token = jwt.sign(
-      { id: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: process.env.JWT_EXPIRES_IN }
-    );
-
-    res.json({
-      message: "Login successful",
-      token,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        phone: user.phone
-      }
-    });
-  } catch (error: any) {
-    if (error.name === 'ZodError') {
-      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+  const tokens = await AuthTokenService.issueTokens(user, sessionMeta(req));
+
+  res.json({
+    message: "Login successful",
+    ...tokens,
+    user: {
+      id: user._id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      phone: user.phone,
+      isVerified: user.isVerified
     }
-    res.status(500).json({ message: "Server error" });
+  });
+}));
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post("/refresh", asyncHandler(async (req, res) => {
+  const { refreshToken } = refreshSchema.parse(req.body);
+  const tokens = await AuthTokenService.rotate(refreshToken, sessionMeta(req));
+
+  res.json({ message: "Token refreshed", ...tokens });
+}));
+
+// End the session the refresh token belongs to
+router.post("/logout", asyncHandler(async (req, res) => {
+  const { refreshToken } = refreshSchema.parse(req.body);
+  const session = await AuthTokenService.revokeSession(refreshToken);
+  if (session) {
+    await disconnectSessions(session.userId, session.sessionId);
   }
-});
+
+  res.json({ message: "Logged out" });
+}));
+
+// End every session of the current user, on all devices
+router.post("/logout-all", authenticate, asyncHandler(async (req: any, res) => {
+  await AuthTokenService.revokeAllSessions(req.user.id);
+  await disconnectSessions(req.user.id);
+
+  res.json({ message: "Logged out of all sessions" });
+}));
+
+// Confirm the email address from the link in the verification email
+router.post("/verify-email", asyncHandler(async (req, res) => {
+  const { token } = verifyEmailSchema.parse(req.body);
+  await AccountService.verifyEmail(token);
+
+  res.json({ message: "Email verified" });
+}));
+
+// Send a new verification link to the current user
+router.post("/resend-verification", authenticate, asyncHandler(async (req: any, res) => {
+  await AccountService.sendVerificationEmail(req.user);
+
+  res.json({ message: "Verification email sent" });
+}));
+
+// Email a password reset link; sessions are ended when the link is used
+router.post("/forgot-password", asyncHandler(async (req, res) => {
+  const { email } = forgotPasswordSchema.parse(req.body);
+  await AccountService.requestPasswordReset(email);
+
+  // Same response whether or not the email is registered
+  res.json({ message: "If that email is registered, a reset link has been sent" });
+}));
+
+// Set a new password with a reset token; every existing session is ended
+router.post("/reset-password", asyncHandler(async (req, res) => {
+  const { token, password } = resetPasswordSchema.parse(req.body);
+  const user = await AccountService.resetPassword(token, password);
+  await disconnectSessions(user._id.toString());
+
+  res.json({ message: "Password has been reset. Please log in again." });
+}));
 
 router.get("/me", authenticate, (req: any, res) => {
   res.json({ user: req.user });
 });
 
+// PATCH /api/auth/me - Update profile fields of the current user
+router.patch("/me", authenticate, asyncHandler(async (req: any, res) => {
+  const updates = profileUpdateSchema.parse(req.body);
+  const user = await AccountService.updateProfile(req.user, updates);
+
+  res.json({ message: "Profile updated", user });
+}));
+
+// Change the password; other sessions are signed out
+router.post("/change-password", authenticate, asyncHandler(async (req: any, res) => {
+  const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+  await AccountService.changePassword(req.user._id, currentPassword, newPassword, req.sessionId);
+  await disconnectOtherSessions(req.user.id, req.sessionId);
+
+  res.json({ message: "Password changed" });
+}));
+
+// Deactivate the account: hides its listings and ends every session
+router.post("/deactivate", authenticate, asyncHandler(async (req: any, res) => {
+  const { password } = deactivateSchema.parse(req.body);
+  await AccountService.deactivate(req.user._id, password);
+  await disconnectSessions(req.user.id);
+
+  res.json({ message: "Account deactivated" });
+}));
+
 export default router;
@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/auth";
+import { validateObjectId } from "../middleware/errorHandler";
+import { BookingService, bookingCreateSchema } from "../services/bookingService";
+import { InspectionService, inspectionCreateSchema } from "../services/inspectionService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { NotFoundError } from "../utils/httpErrors";
+
+const router = Router();
+
+router.param("id", validateObjectId);
+
+// POST /api/bookings - Reserve a car for a date range
+router.post("/", authenticate, asyncHandler(async (req: any, res) => {
+  const data = bookingCreateSchema.parse(req.body);
+  const booking = await BookingService.createBooking(req.user, data);
+
+  res.status(201).json({ message: "Booking confirmed", booking });
+}));
+
+// GET /api/bookings - Current user's bookings as a renter
+router.get("/", authenticate, asyncHandler(async (req: any, res) => {
+  const result = await BookingService.getBookings({ renter: req.user.id }, req.query);
+  res.json(result);
+}));
+
+// GET /api/bookings/:id - Booking details for its renter or vendor
+router.get("/:id", authenticate, asyncHandler(async (req: any, res) => {
+  const booking = await BookingService.findForParticipant(req.user, req.params.id);
+
+  if (!booking) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  res.json(booking);
+}));
+
+// PATCH /api/bookings/:id/cancel - Cancel a booking (renter or vendor)
+router.patch("/:id/cancel", authenticate, asyncHandler(async (req: any, res) => {
+  const { reason } = req.body;
+  const booking = await BookingService.cancelBooking(
+    req.user,
+    req.params.id,
+    typeof reason === 'string' ? reason : undefined
+  );
+
+  res.json({ message: "Booking cancelled", booking });
+}));
+
+// GET /api/bookings/:id/inspections - Check-out and check-in inspections
+router.get("/:id/inspections", authenticate, asyncHandler(async (req: any, res) => {
+  const booking = await BookingService.findForParticipant(req.user, req.params.id);
+
+  if (!booking) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const inspections = await InspectionService.getInspections(req.params.id);
+  res.json(inspections);
+}));
+
+// POST /api/bookings/:id/check-out - Record pickup inspection and start the rental (vendor)
+router.post("/:id/check-out", authenticate, asyncHandler(async (req: any, res) => {
+  const data = inspectionCreateSchema.parse(req.body);
+  const inspection = await InspectionService.checkOut(req.user, req.params.id, data);
+
+  res.status(201).json({ message: "Car checked out", inspection });
+}));
+
+// POST /api/bookings/:id/check-in - Record return inspection, charges and new damage (vendor)
+router.post("/:id/check-in", authenticate, asyncHandler(async (req: any, res) => {
+  const data = inspectionCreateSchema.parse(req.body);
+  const inspection = await InspectionService.checkIn(req.user, req.params.id, data);
+
+  res.status(201).json({
+    message: "Car checked in",
+    inspection,
+    charges: inspection.charges,
+    newDamage: inspection.newDamage
+  });
+}));
+
+export default router;
@@ -1,25 +1,59 @@
 import { Router } from "express";
 import { z } from "zod";
-import Car from "../models/Car";
-import { authenticate } from "../middleware/auth";
+import Car, { OWNERSHIP_TYPES, TITLE_STATUSES } from "../models/Car";
+import Favorite from "../models/Favorite";
+import { authenticate, requireVerifiedSeller } from "../middleware/auth";
+import { validateObjectId } from "../middleware/errorHandler";
 import { getIO } from "../socket";
 import { SearchService } from "../services/searchService";
 import { NotificationService } from "../services/notificationService";
 import { VendorNotificationService } from "../services/vendorNotificationService";
+import { BookingService } from "../services/bookingService";
+import { RentalPricingService, quoteRequestSchema } from "../services/rentalPricingService";
+import { ReportService, listingReportSchema } from "../services/reportService";
+import { ListingRiskService } from "../services/listingRiskService";
+import { decodeVin, findVinMismatches, normalizeVin, VinDecodeResult } from "../services/vinDecoder";
+import {
+  VehicleHistoryService,
+  HistoryRecordKind,
+  serviceRecordSchema,
+  accidentRecordSchema
+} from "../services/vehicleHistoryService";
+import { renderHistoryReportPdf } from "../services/historyReportPdf";
+import { ComparisonService, compareQuerySchema, compareShareSchema, ownershipAssumptionsSchema } from "../services/comparisonService";
+import {
+  FinanceService,
+  financingSettingsSchema,
+  financeQuoteSchema,
+  prequalificationSchema
+} from "../services/financeService";
+import { TradeInService, tradeInSubmissionSchema } from "../services/tradeInService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { BadRequestError, ForbiddenError, NotFoundError, ValidationError } from "../utils/httpErrors";
 
 const router = Router();
 
-// Validation schemas
+router.param("id", validateObjectId);
+router.param("recordId", validateObjectId);
+
+// Form values arrive as "Automatic" or "Plugin Hybrid"; enums are lower-case and dashed
+const normalizedEnum = <T extends [string, ...string[]]>(values: T) => z.preprocess(
+  value => typeof value === 'string' ? value.trim().toLowerCase().replace(/\s+/g, '-') : value,
+  z.enum(values)
+);
+
+// Validation schemas. Fields not listed here (seller, views, featured, status, ...)
+// are stripped, so they can't be set through create or update.
 const carCreateSchema = z.object({
   make: z.string().min(1),
   model: z.string().min(1),
-  year: z.number().min(1900).max(new Date().getFullYear() + 1),
-  price: z.number().positive(),
-  mileage: z.number().min(0),
-  condition: z.enum(['new', 'used', 'certified']),
-  fuelType: z.enum(['gasoline', 'diesel', 'hybrid', 'electric', 'plugin-hybrid']),
-  transmission: z.enum(['manual', 'automatic', 'cvt']),
-  bodyType: z.enum(['sedan', 'suv', 'hatchback', 'coupe', 'convertible', 'wagon', 'truck', 'van']),
+  year: z.coerce.number().int().min(1900).max(new Date().getFullYear() + 1),
+  price: z.coerce.number().positive(),
+  mileage: z.coerce.number().min(0),
+  condition: normalizedEnum(['new', 'used', 'certified']),
+  fuelType: normalizedEnum(['gasoline', 'diesel', 'hybrid', 'electric', 'plugin-hybrid']),
+  transmission: normalizedEnum(['manual', 'automatic', 'cvt']),
+  bodyType: normalizedEnum(['sedan', 'suv', 'hatchback', 'coupe', 'convertible', 'wagon', 'truck', 'van']),
   exteriorColor: z.string().min(1),
   location: z.object({
     city: z.string().min(1),
@@ -31,7 +65,7 @@ const carCreateSchema = z.object({
     url: z.string().url(),
     caption: z.string().optional(),
     isPrimary: z.boolean().optional()
-  })).optional(),
+  })).min(1, 'At least one image is required'),
   features: z.array(z.string()).optional(),
   
   // Engine & Performance
@@ -57,10 +91,12 @@ const carCreateSchema = z.object({
   
   // Ownership History
   ownershipHistory: z.object({
-    vin: z.string().optional(),
+    vin: z.string().transform(normalizeVin).optional(),
     previousOwners: z.number().min(1).optional(),
-    ownershipType: z.enum(['personal', 'fleet', 'rental', 'lease-return', 'government', 'taxi-uber']).optional(),
-    titleStatus: z.enum(['clean', 'salvage', 'flood', 'lemon', 'rebuilt', 'other']).optional()
+    ownershipType: z.enum(OWNERSHIP_TYPES).optional(),
+    titleStatus: z.enum(TITLE_STATUSES).optional(),
+    serviceRecords: z.array(serviceRecordSchema).optional(),
+    accidentRecords: z.array(accidentRecordSchema).optional()
   }).optional(),
   
   // Warranty & Protection
@@ -69,442 +105,745 @@ const carCreateSchema = z.object({
       type: z.enum(['none', 'manufacturer', 'extended', 'dealer', 'third-party']).optional(),
       duration: z.string().optional()
     }).optional()
+  }).optional(),
+
+  // Rental
+  rental: z.object({
+    available: z.boolean(),
+    dailyRate: z.coerce.number().positive().optional()
   }).optional()
 });
 
 const carUpdateSchema = carCreateSchema.partial();
 
-// GET /api/cars/search - Advanced search
-router.get("/search", async (req, res) => {
-  try {
-    const result = await SearchService.advancedSearch(req.query, {
-      page: req.query.page,
-      limit: req.query.limit,
-      sortBy: req.query.sortBy,
-      sortOrder: req.query.sortOrder
-    });
-    
-    res.json(result);
-  } catch (error: any) {
-    res.status(500).json({ message: "Search error", error: error.message });
+// Decode a submitted VIN; malformed VINs and bad North American check digits are rejected
+const decodeListingVin = (vin: string) => {
+  const decoded = decodeVin(vin);
+  if (!decoded.valid) {
+    throw new ValidationError("Invalid VIN", decoded.errors.map(message => ({
+      path: ['ownershipHistory', 'vin'],
+      message
+    })));
+  }
+  return decoded;
+};
+
+const assertMatchesVin = (decoded: VinDecodeResult, listing: { make?: string; year?: number }) => {
+  const issues = findVinMismatches(decoded, listing);
+  if (issues.length) {
+    throw new ValidationError("Listing does not match its VIN", issues);
   }
+};
+
+// Turn nested objects into dotted paths so a partial update doesn't wipe sibling
+// fields (e.g. updating ownershipHistory.vin keeps serviceRecords). Arrays are replaced.
+const toDottedPaths = (data: Record<string, any>, prefix = '', paths: Record<string, any> = {}) => {
+  Object.entries(data).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      toDottedPaths(value, path, paths);
+    } else if (value !== undefined) {
+      paths[path] = value;
+    }
+  });
+  return paths;
+};
+
+// Filters accepted by SearchService.advancedSearch
+const searchFiltersSchema = z.object({
+  search: z.string().optional(),
+  make: z.string().optional(),
+  model: z.string().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minYear: z.coerce.number().optional(),
+  maxYear: z.coerce.number().optional(),
+  maxMileage: z.coerce.number().min(0).optional(),
+  condition: z.enum(['new', 'used', 'certified']).optional(),
+  fuelType: z.enum(['gasoline', 'diesel', 'hybrid', 'electric', 'plugin-hybrid']).optional(),
+  transmission: z.enum(['manual', 'automatic', 'cvt']).optional(),
+  bodyType: z.enum(['sedan', 'suv', 'hatchback', 'coupe', 'convertible', 'wagon', 'truck', 'van']).optional(),
+  drivetrain: z.enum(['fwd', 'rwd', 'awd', '4wd']).optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  featured: z.enum(['true', 'false']).optional(),
+  urgent: z.enum(['true', 'false']).optional()
 });
 
+const savedSearchCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: searchFiltersSchema
+});
+
+const savedSearchRenameSchema = z.object({
+  name: z.string().trim().min(1).max(100)
+});
+
+// GET /api/cars/search - Advanced search
+router.get("/search", asyncHandler(async (req, res) => {
+  const result = await SearchService.advancedSearch(req.query, {
+    page: req.query.page,
+    limit: req.query.limit,
+    sortBy: req.query.sortBy,
+    sortOrder: req.query.sortOrder
+  });
+  
+  res.json(result);
+}));
+
 // GET /api/cars/suggestions - Search suggestions
-router.get("/suggestions", async (req, res) => {
-  try {
-    const { q } = req.query;
-    if (!q || typeof q !== 'string') {
-      return res.json({ makes: [], models: [], cars: [] });
-    }
-    
-    const suggestions = await SearchService.getSearchSuggestions(q);
-    res.json(suggestions);
-  } catch (error: any) {
-    res.status(500).json({ message: "Error getting suggestions", error: error.message });
+router.get("/suggestions", asyncHandler(async (req, res) => {
+  const { q } = req.query;
+  if (!q || typeof q !== 'string') {
+    return res.json({ makes: [], models: [], cars: [] });
   }
-});
+  
+  const suggestions = await SearchService.getSearchSuggestions(q);
+  res.json(suggestions);
+}));
 
 // GET /api/cars/popular - Popular searches and trending
-router.get("/popular", async (req, res) => {
-  try {
-    const popular = await SearchService.getPopularSearches();
-    res.json(popular);
-  } catch (error: any) {
-    res.status(500).json({ message: "Error getting popular searches", error: error.message });
-  }
-});
+router.get("/popular", asyncHandler(async (req, res) => {
+  const popular = await SearchService.getPopularSearches();
+  res.json(popular);
+}));
 
 // GET /api/cars/market-analysis - Market analysis
-router.get("/market-analysis", async (req, res) => {
-  try {
-    const { make, model } = req.query;
-    const analysis = await SearchService.getMarketAnalysis(
-      make as string,
-      model as string
-    );
-    res.json(analysis);
-  } catch (error: any) {
-    res.status(500).json({ message: "Error getting market analysis", error: error.message });
+router.get("/market-analysis", asyncHandler(async (req, res) => {
+  const { make, model, year } = req.query;
+  const analysis = await SearchService.getMarketAnalysis(
+    make as string,
+    model as string,
+    Number(year) || undefined
+  );
+  res.json(analysis);
+}));
+
+// GET /api/cars/compare?ids=a,b,c - Compare 2-4 cars side by side
+router.get("/compare", asyncHandler(async (req, res) => {
+  const { ids, ...assumptions } = compareQuerySchema.parse(req.query);
+  const comparison = await ComparisonService.compare(ids, assumptions);
+  res.json(comparison);
+}));
+
+// POST /api/cars/compare - Save a comparison and get a share link
+router.post("/compare", authenticate, asyncHandler(async (req, res) => {
+  const { ids, ...assumptions } = compareShareSchema.parse(req.body);
+  const comparison = await ComparisonService.share(ids, assumptions);
+  res.status(201).json(comparison);
+}));
+
+// GET /api/cars/compare/:comparisonId - Open a shared comparison
+router.get("/compare/:comparisonId", asyncHandler(async (req, res) => {
+  const assumptions = ownershipAssumptionsSchema.parse(req.query);
+  const comparison = await ComparisonService.getShared(req.params.comparisonId, assumptions);
+  res.json(comparison);
+}));
+
+// GET /api/cars/vin/:vin/decode - Decode a VIN offline
+router.get("/vin/:vin/decode", asyncHandler(async (req, res) => {
+  res.json(decodeVin(req.params.vin));
+}));
+
+// GET /api/cars/saved-searches - List current user's saved searches
+router.get("/saved-searches", authenticate, asyncHandler(async (req: any, res) => {
+  const savedSearches = await SearchService.getSavedSearches(req.user.id);
+  res.json(savedSearches);
+}));
+
+// POST /api/cars/saved-searches - Save a search filter set
+router.post("/saved-searches", authenticate, asyncHandler(async (req: any, res) => {
+  const { name, filters } = savedSearchCreateSchema.parse(req.body);
+  const savedSearch = await SearchService.saveSearch(req.user.id, filters, name);
+
+  res.status(201).json({ message: "Search saved successfully", savedSearch });
+}));
+
+// PATCH /api/cars/saved-searches/:id - Rename a saved search
+router.patch("/saved-searches/:id", authenticate, asyncHandler(async (req: any, res) => {
+  const { name } = savedSearchRenameSchema.parse(req.body);
+  const savedSearch = await SearchService.renameSavedSearch(req.user.id, req.params.id, name);
+
+  if (!savedSearch) {
+    throw new NotFoundError("Saved search not found");
   }
-});
 
-// GET /api/cars/vendor - Get vendor's cars
-router.get("/vendor", authenticate, async (req: any, res) => {
-  try {
-    console.log('Fetching cars for vendor:', req.user.id);
-    
-    const cars = await Car.find({ seller: req.user.id })
-      .sort({ listedAt: -1 })
-      .lean();
-    
-    console.log('Found cars:', cars.length);
-    res.json(cars);
-  } catch (error: any) {
-    console.error('Vendor cars fetch error:', error);
-    res.status(500).json({ message: "Server error", error: error.message });
+  res.json({ message: "Saved search renamed", savedSearch });
+}));
+
+// DELETE /api/cars/saved-searches/:id - Delete a saved search
+router.delete("/saved-searches/:id", authenticate, asyncHandler(async (req: any, res) => {
+  const savedSearch = await SearchService.deleteSavedSearch(req.user.id, req.params.id);
+
+  if (!savedSearch) {
+    throw new NotFoundError("Saved search not found");
   }
-});
 
-// GET /api/cars - List cars with filtering and pagination
-router.get("/", async (req, res) => {
-  try {
-    const {
-      page = 1,
-      limit = 20,
-      make,
-      model,
-      minPrice,
-      maxPrice,
-      minYear,
-      maxYear,
-      maxMileage,
-      condition,
-      fuelType,
-      transmission,
-      bodyType,
-      city,
-      state,
-      search,
-      sortBy = 'listedAt',
-      sortOrder = 'desc',
-      featured
-    } = req.query;
-
-    // Build filter object
-    const filter: any = { status: 'active' };
-    
-    if (make) filter.make = new RegExp(make as string, 'i');
-    if (model) filter.model = new RegExp(model as string, 'i');
-    if (minPrice || maxPrice) {
-      filter.price = {};
-      if (minPrice) filter.price.$gte = Number(minPrice);
-      if (maxPrice) filter.price.$lte = Number(maxPrice);
-    }
-    if (minYear || maxYear) {
-      filter.year = {};
-      if (minYear) filter.year.$gte = Number(minYear);
-      if (maxYear) filter.year.$lte = Number(maxYear);
-    }
-    if (maxMileage) filter.mileage = { $lte: Number(maxMileage) };
-    if (condition) filter.condition = condition;
-    if (fuelType) filter.fuelType = fuelType;
-    if (transmission) filter.transmission = transmission;
-    if (bodyType) filter.bodyType = bodyType;
-    if (city) filter['location.city'] = new RegExp(city as string, 'i');
-    if (state) filter['location.state'] = new RegExp(state as string, 'i');
-    if (featured === 'true') filter.featured = true;
-    
-    // Text search
-    if (search) {
-      filter.$text = { $search: search as string };
-    }
+  res.json({ message: "Saved search deleted" });
+}));
 
-    // Sort options
-    const sortOptions: any = {};
-    sortOptions[sortBy as string] = sortOrder === 'desc' ? -1 : 1;
-    
-    // If sorting by relevance and there's a search, add text score
-    if (search && sortBy === 'relevance') {
-      sortOptions.score = { $meta: 'textScore' };
+// GET /api/cars/vendor - Get vendor's cars
+router.get("/vendor", authenticate, asyncHandler(async (req: any, res) => {
+  console.log('Fetching cars for vendor:', req.user.id);
+  
+  const cars = await Car.find({ seller: req.user.id })
+    .sort({ listedAt: -1 })
+    .lean();
+  
+  console.log('Found cars:', cars.length);
+  res.json(cars);
+}));
+
+// GET /api/cars/favorites - Get current user's favorited cars
+router.get("/favorites", authenticate, asyncHandler(async (req: any, res) => {
+  const { page = 1, limit = 20 } = req.query;
+  const skip = (Number(page) - 1) * Number(limit);
+
+  const [favorites, total] = await Promise.all([
+    Favorite.find({ user: req.user.id })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit))
+      .populate({
+        path: 'car',
+        populate: { path: 'seller', select: 'name email phone sellerType' }
+      })
+      .lean(),
+    Favorite.countDocuments({ user: req.user.id })
+  ]);
+
+  res.json({
+    favorites: favorites
+      .filter(favorite => favorite.car)
+      .map(favorite => ({
+        _id: favorite._id,
+        car: favorite.car,
+        favoritedAt: favorite.createdAt
+      })),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
     }
+  });
+}));
 
-    const skip = (Number(page) - 1) * Number(limit);
-    
-    const [cars, total] = await Promise.all([
-      Car.find(filter)
-        .populate('seller', 'name email phone sellerType')
-        .sort(sortOptions)
-        .skip(skip)
-        .limit(Number(limit))
-        .lean(),
-      Car.countDocuments(filter)
-    ]);
-
-    res.json({
-      cars,
-      pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total,
-        pages: Math.ceil(total / Number(limit))
-      },
-      filters: {
-        makes: await Car.distinct('make', { status: 'active' }),
-        bodyTypes: await Car.distinct('bodyType', { status: 'active' }),
-        fuelTypes: await Car.distinct('fuelType', { status: 'active' })
-      }
-    });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
+// GET /api/cars - List cars with filtering and pagination
+router.get("/", asyncHandler(async (req, res) => {
+  const {
+    page = 1,
+    limit = 20,
+    make,
+    model,
+    minPrice,
+    maxPrice,
+    minYear,
+    maxYear,
+    maxMileage,
+    condition,
+    fuelType,
+    transmission,
+    bodyType,
+    city,
+    state,
+    search,
+    sortBy = 'listedAt',
+    sortOrder = 'desc',
+    featured
+  } = req.query;
+
+  // Build filter object
+  const filter: any = { status: 'active' };
+  
+  if (make) filter.make = new RegExp(make as string, 'i');
+  if (model) filter.model = new RegExp(model as string, 'i');
+  if (minPrice || maxPrice) {
+    filter.price = {};
+    if (minPrice) filter.price.$gte = Number(minPrice);
+    if (maxPrice) filter.price.$lte = Number(maxPrice);
+  }
+  if (minYear || maxYear) {
+    filter.year = {};
+    if (minYear) filter.year.$gte = Number(minYear);
+    if (maxYear) filter.year.$lte = Number(maxYear);
+  }
+  if (maxMileage) filter.mileage = { $lte: Number(maxMileage) };
+  if (condition) filter.condition = condition;
+  if (fuelType) filter.fuelType = fuelType;
+  if (transmission) filter.transmission = transmission;
+  if (bodyType) filter.bodyType = bodyType;
+  if (city) filter['location.city'] = new RegExp(city as string, 'i');
+  if (state) filter['location.state'] = new RegExp(state as string, 'i');
+  if (featured === 'true') filter.featured = true;
+  
+  // Text search
+  if (search) {
+    filter.$text = { $search: search as string };
   }
-});
 
-// GET /api/cars/:id - Get single car
-router.get("/:id", async (req, res) => {
-  try {
-    const car = await Car.findById(req.params.id)
+  // Sort options
+  const sortOptions: any = {};
+  sortOptions[sortBy as string] = sortOrder === 'desc' ? -1 : 1;
+  
+  // If sorting by relevance and there's a search, add text score
+  if (search && sortBy === 'relevance') {
+    sortOptions.score = { $meta: 'textScore' };
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+  
+  const [cars, total] = await Promise.all([
+    Car.find(filter)
       .populate('seller', 'name email phone sellerType')
-      .lean();
-    
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
+      .sort(sortOptions)
+      .skip(skip)
+      .limit(Number(limit))
+      .lean(),
+    Car.countDocuments(filter)
+  ]);
+
+  res.json({
+    cars,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    },
+    filters: {
+      makes: await Car.distinct('make', { status: 'active' }),
+      bodyTypes: await Car.distinct('bodyType', { status: 'active' }),
+      fuelTypes: await Car.distinct('fuelType', { status: 'active' })
     }
+  });
+}));
+
+// GET /api/cars/:id - Get single car
+router.get("/:id", asyncHandler(async (req, res) => {
+  const car = await Car.findById(req.params.id)
+    .populate('seller', 'name email phone sellerType')
+    .lean();
+  
+  // Listings taken down by moderators are gone for the public
+  if (!car || car.status === 'removed') {
+    throw new NotFoundError("Car not found");
+  }
+
+  // Increment view count
+  await Car.findByIdAndUpdate(req.params.id, { $inc: { views: 1 } });
+  
+  // Get similar cars using search service
+  const similarCars = await SearchService.getSimilarCars(req.params.id, 4);
 
-    // Increment view count
-    await Car.findByIdAndUpdate(req.params.id, { $inc: { views: 1 } });
-    
-    // Get similar cars using search service
-    const similarCars = await SearchService.getSimilarCars(req.params.id, 4);
+  res.json({ car, similarCars });
+}));
 
-    res.json({ car, similarCars });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
+// GET /api/cars/:id/availability - Booked date ranges for a rental car
+router.get("/:id/availability", asyncHandler(async (req, res) => {
+  const car = await Car.findById(req.params.id).select('rental status').lean();
+  if (!car) {
+    throw new NotFoundError("Car not found");
   }
-});
+
+  // Default to the next 90 days
+  const from = req.query.from ? new Date(req.query.from as string) : new Date();
+  const to = req.query.to
+    ? new Date(req.query.to as string)
+    : new Date(from.getTime() + 90 * 24 * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    throw new BadRequestError("Invalid date range");
+  }
+
+  const booked = await BookingService.getAvailability(req.params.id, from, to);
+
+  res.json({
+    carId: car._id,
+    rentable: !!car.rental?.available && car.status === 'active',
+    dailyRate: car.rental?.dailyRate,
+    from,
+    to,
+    booked
+  });
+}));
+
+// POST /api/cars/:id/quote - Itemized rental quote for a date range
+router.post("/:id/quote", asyncHandler(async (req, res) => {
+  const input = quoteRequestSchema.parse(req.body);
+
+  const car = await Car.findById(req.params.id).select('seller location rental status').lean();
+  if (!car || car.status !== 'active') {
+    throw new NotFoundError("Car not found");
+  }
+  if (!car.rental?.available) {
+    throw new BadRequestError("Car is not available for rent");
+  }
+
+  const quote = await RentalPricingService.quoteForCar(car, input);
+  if (!quote) {
+    throw new BadRequestError("Car is not available for rent");
+  }
+
+  res.json({ carId: car._id, quote });
+}));
+
+// GET /api/cars/:id/financing - Financing offers and headline terms
+router.get("/:id/financing", asyncHandler(async (req, res) => {
+  const financing = await FinanceService.getFinancing(req.params.id);
+  res.json(financing);
+}));
+
+// PUT /api/cars/:id/financing - Replace the financing offers (owner only)
+router.put("/:id/financing", authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+  const data = financingSettingsSchema.parse(req.body);
+  const financing = await FinanceService.updateFinancing(req.user.id, req.params.id, data);
+  res.json({ message: "Financing updated", financing });
+}));
+
+// POST /api/cars/:id/finance-quote - Monthly payment, total interest and amortization schedule
+router.post("/:id/finance-quote", asyncHandler(async (req, res) => {
+  const terms = financeQuoteSchema.parse(req.body);
+  const quote = await FinanceService.quote(req.params.id, terms);
+  res.json(quote);
+}));
+
+// POST /api/cars/:id/prequalify - Submit a financing pre-qualification to the seller
+router.post("/:id/prequalify", authenticate, asyncHandler(async (req: any, res) => {
+  const data = prequalificationSchema.parse(req.body);
+  const { lead, quote, updated } = await FinanceService.prequalify(req.user, req.params.id, data);
+
+  res.status(updated ? 200 : 201).json({
+    message: lead.result === 'prequalified'
+      ? "You're pre-qualified; the seller will contact you"
+      : "Application sent; the seller will review it with you",
+    lead: {
+      id: lead._id,
+      result: lead.result,
+      reasons: lead.reasons,
+      debtToIncome: lead.debtToIncome,
+      status: lead.status
+    },
+    quote
+  });
+}));
 
 // POST /api/cars - Create new car listing
-router.post("/", authenticate, async (req: any, res) => {
-  try {
-    const {
-      make,
-      model,
-      year,
-      price,
-      mileage,
-      location,
-      condition,
-      fuelType,
-      transmission,
-      bodyType,
-      exteriorColor,
-      description,
-      features,
-      images,
-      color
-    } = req.body;
-
-    console.log('Received form data:', req.body);
-    console.log('Images array:', images);
-
-    // Validate images array
-    if (!images || !Array.isArray(images) || images.length === 0) {
-      return res.status(400).json({ message: "At least one image is required" });
-    }
+router.post("/", authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+  const body = { ...req.body };
+  const submittedVin = body.ownershipHistory?.vin;
+  const decodedVin = typeof submittedVin === 'string' && submittedVin.trim()
+    ? decodeListingVin(submittedVin)
+    : null;
+
+  // Make and year can be left out when the VIN identifies them. Outside North America
+  // the year code repeats every 30 years, so an ambiguous year has to be sent.
+  if (decodedVin) {
+    if (!body.make && decodedVin.makes.length === 1) body.make = decodedVin.makes[0];
+    if (!body.year && decodedVin.modelYearCandidates.length === 1) body.year = decodedVin.modelYearCandidates[0];
+  }
 
-    // Use images as-is since frontend already formats them correctly
-    console.log('Using images as provided:', images);
-
-    const car = new Car({
-      make,
-      model,
-      year: parseInt(year),
-      price: parseFloat(price),
-      mileage: parseInt(mileage),
-      condition: condition.toLowerCase() === 'excellent' ? 'used' : condition.toLowerCase(),
-      fuelType: fuelType.toLowerCase().replace(' ', '-'),
-      transmission: transmission.toLowerCase(),
-      bodyType: bodyType.toLowerCase(),
-      exteriorColor: exteriorColor || color || 'Not specified',
-      location: {
-        city: location.city || location,
-        state: location.state || 'Unknown',
-        zipCode: location.zipCode
-      },
-      description,
-      features: features || [],
-      images: images,
-      seller: req.user.id,
-      sellerType: req.user.role === 'vendor' ? 'dealer' : 'private',
-      originalPrice: parseFloat(price),
-      priceHistory: [{ price: parseFloat(price) }]
-    });
-
-    await car.save();
-    await car.populate('seller', 'name email phone');
-
-    // Send real-time notifications
-    await NotificationService.notifyNewListing(car.toObject());
-
-    res.status(201).json({ message: "Car listed successfully", car });
-  } catch (error: any) {
-    console.error('Car creation error:', error);
-    res.status(500).json({ message: "Server error", error: error.message });
+  const data = carCreateSchema.parse(body);
+  if (decodedVin) {
+    assertMatchesVin(decodedVin, data);
   }
-});
+
+  const car = new Car({
+    ...data,
+    features: data.features || [],
+    seller: req.user.id,
+    sellerType: req.user.role === 'vendor' ? 'dealer' : 'private',
+    originalPrice: data.price,
+    priceHistory: [{ price: data.price }]
+  });
+
+  const { assessment, flagged } = await ListingRiskService.screen(car);
+  await car.save();
+  await car.populate('seller', 'name email phone');
+
+  // High-risk listings wait for a moderator instead of going live
+  if (flagged) {
+    await ReportService.createAutomatedReport(car._id, assessment);
+    return res.status(201).json({ message: "Car listed and sent for review", car });
+  }
+
+  // Send real-time notifications
+  await NotificationService.notifyNewListing(car.toObject());
+
+  // Match saved searches in the background so the response isn't held up
+  SearchService.notifySavedSearchMatches(car.toObject()).catch(error => {
+    console.error('Saved search matching error:', error);
+  });
+
+  res.status(201).json({ message: "Car listed successfully", car });
+}));
 
 // PUT /api/cars/:id - Update car listing
-router.put("/:id", authenticate, async (req: any, res) => {
-  try {
-    const car = await Car.findById(req.params.id);
-    
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
-    }
-    
-    if (car.seller.toString() !== req.user.id) {
-      return res.status(403).json({ message: "Not authorized" });
-    }
+router.put("/:id", authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+  const car = await Car.findById(req.params.id);
+  
+  if (!car) {
+    throw new NotFoundError("Car not found");
+  }
+  
+  if (car.seller.toString() !== req.user.id) {
+    throw new ForbiddenError("Not authorized");
+  }
 
-    console.log('Update request body:', req.body);
-    
-    // Skip validation for now to debug
-    const updateData = req.body;
-    
-    // Track price changes
-    if (updateData.price && updateData.price !== car.price) {
-      const oldPrice = car.price;
-      if (!car.priceHistory) car.priceHistory = [];
-      car.priceHistory.push({ price: updateData.price });
-      
-      // Notify about price change
-      await NotificationService.notifyPriceChange(car._id.toString(), oldPrice, updateData.price);
-    }
+  const updateData = carUpdateSchema.parse(req.body);
 
-    Object.assign(car, updateData);
-    await car.save();
-    await car.populate('seller', 'name email phone');
+  // A new VIN must be valid; make and year changes are checked against the VIN on
+  // file when it decodes
+  const listing = { make: updateData.make ?? car.make, year: updateData.year ?? car.year };
+  if (updateData.ownershipHistory?.vin) {
+    assertMatchesVin(decodeListingVin(updateData.ownershipHistory.vin), listing);
+  } else if (car.ownershipHistory?.vin && (updateData.make || updateData.year)) {
+    const storedVin = decodeVin(car.ownershipHistory.vin);
+    if (storedVin.valid) assertMatchesVin(storedVin, listing);
+  }
+  
+  // Track price changes
+  const oldPrice = car.price;
+  const priceChanged = !!updateData.price && updateData.price !== oldPrice;
+  if (priceChanged) {
+    car.priceHistory.push({ price: updateData.price });
+  }
 
-    res.json({ message: "Car updated successfully", car });
-  } catch (error: any) {
-    console.error('Car update error:', error);
-    res.status(500).json({ message: "Server error", error: error.message });
+  car.set(toDottedPaths(updateData));
+  // Advertised monthly payments follow the price
+  if (priceChanged) {
+    FinanceService.applyHeadlineTerms(car);
+  }
+  const { assessment, flagged } = await ListingRiskService.screen(car);
+  await car.save();
+  await car.populate('seller', 'name email phone');
+
+  // Price alerts only fire for listings that stay live
+  if (flagged) {
+    await ReportService.createAutomatedReport(car._id, assessment);
+    return res.json({ message: "Car updated and sent for review", car });
   }
-});
 
-// DELETE /api/cars/:id - Delete car listing
-router.delete("/:id", authenticate, async (req: any, res) => {
-  try {
-    const car = await Car.findById(req.params.id);
-    
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
-    }
-    
-    if (car.seller.toString() !== req.user.id) {
-      return res.status(403).json({ message: "Not authorized" });
-    }
+  if (priceChanged) {
+    // Notify about price change
+    await NotificationService.notifyPriceChange(car._id.toString(), oldPrice, updateData.price);
+  }
 
-    await Car.findByIdAndDelete(req.params.id);
-    
-    // Emit deletion event
-    const io = getIO();
-    io.emit('carDeleted', {
-      carId: car._id,
-      message: `${car.year} ${car.make} ${car.model} listing removed`
-    });
+  res.json({ message: "Car updated successfully", car });
+}));
 
-    res.json({ message: "Car listing deleted successfully" });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
+// DELETE /api/cars/:id - Delete car listing
+router.delete("/:id", authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+  const car = await Car.findById(req.params.id);
+  
+  if (!car) {
+    throw new NotFoundError("Car not found");
+  }
+  
+  if (car.seller.toString() !== req.user.id) {
+    throw new ForbiddenError("Not authorized");
   }
-});
+
+  await Car.findByIdAndDelete(req.params.id);
+  await Favorite.deleteMany({ car: car._id });
+  
+  // Emit deletion event
+  const io = getIO();
+  io.emit('carDeleted', {
+    carId: car._id,
+    message: `${car.year} ${car.make} ${car.model} listing removed`
+  });
+
+  res.json({ message: "Car listing deleted successfully" });
+}));
 
 // POST /api/cars/:id/favorite - Toggle favorite
-router.post("/:id/favorite", authenticate, async (req: any, res) => {
-  try {
-    const car = await Car.findById(req.params.id);
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
-    }
+router.post("/:id/favorite", authenticate, asyncHandler(async (req: any, res) => {
+  const car = await Car.findById(req.params.id);
+  if (!car) {
+    throw new NotFoundError("Car not found");
+  }
 
-    await Car.findByIdAndUpdate(req.params.id, { $inc: { favorites: 1 } });
-    res.json({ message: "Car favorited" });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
+  // Remove the favorite if it exists, otherwise create it
+  const removed = await Favorite.findOneAndDelete({ user: req.user.id, car: car._id });
+  const favorited = !removed;
+
+  if (favorited) {
+    try {
+      await Favorite.create({ user: req.user.id, car: car._id });
+    } catch (error: any) {
+      // A concurrent request already favorited this car
+      if (error.code !== 11000) throw error;
+    }
   }
-});
+
+  // Recount rather than $inc so the counter always matches the records
+  const favorites = await Favorite.countDocuments({ car: car._id });
+  await Car.findByIdAndUpdate(car._id, { favorites });
+
+  res.json({
+    message: favorited ? "Car favorited" : "Car removed from favorites",
+    favorited,
+    favorites
+  });
+}));
 
 // POST /api/cars/:id/inquiry - Track inquiry
-router.post("/:id/inquiry", authenticate, async (req: any, res) => {
-  try {
-    const car = await Car.findById(req.params.id);
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
-    }
+router.post("/:id/inquiry", authenticate, asyncHandler(async (req: any, res) => {
+  const car = await Car.findById(req.params.id);
+  if (!car) {
+    throw new NotFoundError("Car not found");
+  }
 
-    await Car.findByIdAndUpdate(req.params.id, { $inc: { inquiries: 1 } });
-    
-    // Notify seller about inquiry
-    await NotificationService.notifyInquiry(car._id.toString(), req.user.name);
-    await VendorNotificationService.notifyNewInquiry(car.seller.toString(), car._id.toString(), req.user.name);
-    
-    // Check for performance milestones
-    const updatedCar = await Car.findById(req.params.id).lean();
-    if (updatedCar) {
-      if (updatedCar.inquiries === 5) {
-        await VendorNotificationService.notifyPerformanceMilestone(
-          car.seller.toString(),
-          car._id.toString(),
-          'multiple_inquiries'
-        );
-      }
+  await Car.findByIdAndUpdate(req.params.id, { $inc: { inquiries: 1 } });
+  
+  // Notify seller about inquiry
+  await VendorNotificationService.notifyNewInquiry(car.seller.toString(), car._id.toString(), req.user.name);
+  
+  // Check for performance milestones
+  const updatedCar = await Car.findById(req.params.id).lean();
+  if (updatedCar) {
+    if (updatedCar.inquiries === 5) {
+      await VendorNotificationService.notifyPerformanceMilestone(
+        car.seller.toString(),
+        car._id.toString(),
+        'multiple_inquiries'
+      );
     }
+  }
 
-    res.json({ message: "Inquiry recorded" });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
+  res.json({ message: "Inquiry recorded" });
+}));
+
+// POST /api/cars/:id/trade-in - Inquire with a trade-in vehicle; opens a message thread with the seller
+router.post("/:id/trade-in", authenticate, asyncHandler(async (req: any, res) => {
+  const data = tradeInSubmissionSchema.parse(req.body);
+  const { message, tradeIn } = await TradeInService.submit(req.user, req.params.id, data);
+
+  res.status(201).json({ message: "Trade-in submitted", threadId: message._id, tradeIn });
+}));
+
+// POST /api/cars/:id/report - Flag a listing for moderation
+router.post("/:id/report", authenticate, asyncHandler(async (req: any, res) => {
+  const data = listingReportSchema.parse(req.body);
+  const { report, underReview } = await ReportService.createReport(req.user.id, req.params.id, data);
+
+  res.status(201).json({
+    message: "Report submitted",
+    report: { id: report._id, reason: report.reason, status: report.status },
+    underReview
+  });
+}));
+
+// GET /api/cars/:id/history-report - Ownership history summary (JSON, or PDF with ?format=pdf)
+router.get("/:id/history-report", asyncHandler(async (req, res) => {
+  const report = await VehicleHistoryService.getReport(req.params.id);
+
+  if (req.query.format === 'pdf') {
+    const pdf = await renderHistoryReportPdf(report);
+    // VINs are free text on older listings; keep the header to safe characters
+    const vin = report.vehicle.vin?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const fileName = `history-report-${vin || report.vehicle.id}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(pdf);
   }
+
+  res.json(report);
+}));
+
+// Service and accident records share the same routes under different paths
+const historyRecordRoutes: Array<[string, HistoryRecordKind, typeof serviceRecordSchema | typeof accidentRecordSchema]> = [
+  ['service-records', 'service', serviceRecordSchema],
+  ['accident-records', 'accident', accidentRecordSchema]
+];
+
+historyRecordRoutes.forEach(([path, kind, schema]) => {
+  // GET /api/cars/:id/service-records, /api/cars/:id/accident-records
+  router.get(`/:id/${path}`, asyncHandler(async (req, res) => {
+    const records = await VehicleHistoryService.listRecords(req.params.id, kind);
+    res.json(records);
+  }));
+
+  // POST /api/cars/:id/service-records, /api/cars/:id/accident-records - Owner only
+  router.post(`/:id/${path}`, authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+    const data = schema.parse(req.body);
+    const record = await VehicleHistoryService.addRecord(req.user.id, req.params.id, kind, data);
+    res.status(201).json(record);
+  }));
+
+  // PUT /api/cars/:id/{service,accident}-records/:recordId - Owner only
+  router.put(`/:id/${path}/:recordId`, authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+    const data = schema.partial().parse(req.body);
+    const record = await VehicleHistoryService.updateRecord(req.user.id, req.params.id, kind, req.params.recordId, data);
+    res.json(record);
+  }));
+
+  // DELETE /api/cars/:id/{service,accident}-records/:recordId - Owner only
+  router.delete(`/:id/${path}/:recordId`, authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+    await VehicleHistoryService.deleteRecord(req.user.id, req.params.id, kind, req.params.recordId);
+    res.json({ message: "Record deleted" });
+  }));
 });
 
 // PATCH /api/cars/:id/status - Update car status
-router.patch("/:id/status", authenticate, async (req: any, res) => {
-  try {
-    const car = await Car.findById(req.params.id);
-    
-    if (!car) {
-      return res.status(404).json({ message: "Car not found" });
-    }
-    
-    if (car.seller.toString() !== req.user.id) {
-      return res.status(403).json({ message: "Not authorized" });
-    }
+router.patch("/:id/status", authenticate, requireVerifiedSeller, asyncHandler(async (req: any, res) => {
+  const car = await Car.findById(req.params.id);
+  
+  if (!car) {
+    throw new NotFoundError("Car not found");
+  }
+  
+  if (car.seller.toString() !== req.user.id) {
+    throw new ForbiddenError("Not authorized");
+  }
 
-    const { status } = req.body;
-    if (!['active', 'inactive', 'sold', 'pending'].includes(status)) {
-      return res.status(400).json({ message: "Invalid status" });
-    }
+  const { status } = req.body;
+  if (!['active', 'inactive', 'sold', 'pending'].includes(status)) {
+    throw new BadRequestError("Invalid status");
+  }
+  if (car.status === 'removed' || car.status === 'under_review') {
+    throw new ForbiddenError(car.status === 'removed'
+      ? "Listing was removed by moderators"
+      : "Listing is under review by moderators");
+  }
 
-    car.status = status;
-    await car.save();
+  car.status = status;
+  // Keep the sale date in step with the status for sales reporting
+  if (status === 'sold' && !car.soldAt) car.soldAt = new Date();
+  if (status !== 'sold') car.soldAt = undefined;
+  await car.save();
 
-    res.json({ message: "Status updated successfully", car });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
-  }
-});
+  res.json({ message: "Status updated successfully", car });
+}));
 
 // GET /api/cars/stats/overview - Get market stats
-router.get("/stats/overview", async (_req, res) => {
-  try {
-    const [totalActive, avgPrice, popularMakes, recentListings] = await Promise.all([
-      Car.countDocuments({ status: 'active' }),
-      Car.aggregate([
-        { $match: { status: 'active' } },
-        { $group: { _id: null, avgPrice: { $avg: '$price' } } }
-      ]),
-      Car.aggregate([
-        { $match: { status: 'active' } },
-        { $group: { _id: '$make', count: { $sum: 1 } } },
-        { $sort: { count: -1 } },
-        { $limit: 5 }
-      ]),
-      Car.find({ status: 'active' })
-        .sort({ listedAt: -1 })
-        .limit(5)
-        .populate('seller', 'name')
-        .lean()
-    ]);
-
-    res.json({
-      totalActive,
-      avgPrice: avgPrice[0]?.avgPrice || 0,
-      popularMakes,
-      recentListings
-    });
-  } catch (error: any) {
-    res.status(500).json({ message: "Server error", error: error.message });
-  }
-});
+router.get("/stats/overview", asyncHandler(async (_req, res) => {
+  const [totalActive, avgPrice, popularMakes, recentListings] = await Promise.all([
+    Car.countDocuments({ status: 'active' }),
+    Car.aggregate([
+      { $match: { status: 'active' } },
+      { $group: { _id: null, avgPrice: { $avg: '$price' } } }
+    ]),
+    Car.aggregate([
+      { $match: { status: 'active' } },
+      { $group: { _id: '$make', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+      { $limit: 5 }
+    ]),
+    Car.find({ status: 'active' })
+      .sort({ listedAt: -1 })
+      .limit(5)
+      .populate('seller', 'name')
+      .lean()
+  ]);
+
+  res.json({
+    totalActive,
+    avgPrice: avgPrice[0]?.avgPrice || 0,
+    popularMakes,
+    recentListings
+  });
+}));
 
 export default router;
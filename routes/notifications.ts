@@ -1,9 +1,72 @@
 import { Router } from "express";
+import { authenticate } from "../middleware/auth";
+import { validateObjectId } from "../middleware/errorHandler";
+import { InboxService } from "../services/inboxService";
+import {
+  NotificationPreferenceService,
+  notificationPreferencesSchema
+} from "../services/notificationPreferenceService";
+import { refreshSocketPreferences } from "../socket";
+import { asyncHandler } from "../utils/asyncHandler";
+import { NotFoundError } from "../utils/httpErrors";
 
 const router = Router();
 
-router.get("/", (_req, res) => {
-  res.json({ notifications: [] });
-});
+router.param("id", validateObjectId);
+
+// GET /api/notifications - Paginated inbox for the current user
+router.get("/", authenticate, asyncHandler(async (req: any, res) => {
+  const result = await InboxService.getNotifications(req.user.id, req.query);
+  res.json(result);
+}));
+
+// GET /api/notifications/unread-count - Number of unread notifications
+router.get("/unread-count", authenticate, asyncHandler(async (req: any, res) => {
+  const count = await InboxService.getUnreadCount(req.user.id);
+  res.json({ count });
+}));
+
+// GET /api/notifications/preferences - Current user's notification preferences
+router.get("/preferences", authenticate, asyncHandler(async (req: any, res) => {
+  const preferences = await NotificationPreferenceService.getPreferences(req.user.id);
+  res.json(preferences);
+}));
+
+// PATCH /api/notifications/preferences - Update notification preferences
+router.patch("/preferences", authenticate, asyncHandler(async (req: any, res) => {
+  const updates = notificationPreferencesSchema.parse(req.body);
+  const preferences = await NotificationPreferenceService.updatePreferences(req.user.id, updates);
+  await refreshSocketPreferences(req.user.id, preferences);
+
+  res.json({ message: "Preferences updated", preferences });
+}));
+
+// PATCH /api/notifications/read-all - Mark every notification as read
+router.patch("/read-all", authenticate, asyncHandler(async (req: any, res) => {
+  const modifiedCount = await InboxService.markAllRead(req.user.id);
+  res.json({ message: "All notifications marked as read", modifiedCount });
+}));
+
+// PATCH /api/notifications/:id/read - Mark one notification as read
+router.patch("/:id/read", authenticate, asyncHandler(async (req: any, res) => {
+  const notification = await InboxService.markRead(req.user.id, req.params.id);
+
+  if (!notification) {
+    throw new NotFoundError("Notification not found");
+  }
+
+  res.json({ message: "Notification marked as read", notification });
+}));
+
+// DELETE /api/notifications/:id - Delete a notification
+router.delete("/:id", authenticate, asyncHandler(async (req: any, res) => {
+  const notification = await InboxService.deleteNotification(req.user.id, req.params.id);
+
+  if (!notification) {
+    throw new NotFoundError("Notification not found");
+  }
+
+  res.json({ message: "Notification deleted" });
+}));
 
 export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/auth";
+import { validateObjectId } from "../middleware/errorHandler";
+import { PriceAlertService, priceAlertSchema } from "../services/priceAlertService";
+import { asyncHandler } from "../utils/asyncHandler";
+import { NotFoundError } from "../utils/httpErrors";
+
+const router = Router();
+
+router.param("id", validateObjectId);
+
+// GET /api/price-alerts - List current user's price alerts
+router.get("/", authenticate, asyncHandler(async (req: any, res) => {
+  const alerts = await PriceAlertService.getAlerts(req.user.id);
+  res.json(alerts);
+}));
+
+// POST /api/price-alerts - Create a price alert
+router.post("/", authenticate, asyncHandler(async (req: any, res) => {
+  const data = priceAlertSchema.parse(req.body);
+  const alert = await PriceAlertService.createAlert(req.user.id, data);
+
+  res.status(201).json({ message: "Price alert created", alert });
+}));
+
+// DELETE /api/price-alerts/:id - Delete a price alert
+router.delete("/:id", authenticate, asyncHandler(async (req: any, res) => {
+  const alert = await PriceAlertService.deleteAlert(req.user.id, req.params.id);
+
+  if (!alert) {
+    throw new NotFoundError("Price alert not found");
+  }
+
+  res.json({ message: "Price alert deleted" });
+}));
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from "express";
 import multer from "multer";
 import { v2 as cloudinary } from "cloudinary";
 import { authenticate } from "../middleware/auth";
+import { asyncHandler } from "../utils/asyncHandler";
+import { BadRequestError } from "../utils/httpErrors";
 
 const router = Router();
 
@@ -27,68 +29,88 @@ const upload = multer({
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new BadRequestError('Only image files are allowed'));
     }
   },
 });
 
-// POST /api/upload/images - Upload multiple images to Cloudinary
-router.post("/images", authenticate, upload.array('images', 10), async (req: any, res) => {
-  try {
-    console.log('Upload request received');
-    console.log('Files:', req.files?.length || 0);
-    
-    if (!req.files || req.files.length === 0) {
-      return res.status(400).json({ message: "No images provided" });
-    }
+const isCloudinaryConfigured = () =>
+  !!(process.env.CLOUDINARY_CLOUD_NAME && process.env.CLOUDINARY_API_KEY && process.env.CLOUDINARY_API_SECRET);
 
-    // Check if Cloudinary is configured
-    if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
-      console.log('Using mock upload - Cloudinary not configured');
-      // Return mock URLs for development
-      const mockUrls = req.files.map((_: any, index: number) => 
-        `https://via.placeholder.com/800x600/1B3F79/FFFFFF?text=Car+Image+${index + 1}`
-      );
-      return res.json({
-        message: "Images uploaded successfully (mock)",
-        urls: mockUrls
-      });
-    }
+// Upload one image buffer to Cloudinary and return its URL
+const uploadToCloudinary = (file: Express.Multer.File, folder: string, transformation: object[]) =>
+  new Promise<string | undefined>((resolve, reject) => {
+    cloudinary.uploader.upload_stream(
+      {
+        resource_type: "image",
+        folder,
+        transformation
+      },
+      (error, result) => {
+        if (error) {
+          console.error('Cloudinary upload error:', error);
+          reject(error);
+        } else {
+          resolve(result?.secure_url);
+        }
+      }
+    ).end(file.buffer);
+  });
 
-    const uploadPromises = req.files.map((file: Express.Multer.File) => {
-      return new Promise((resolve, reject) => {
-        cloudinary.uploader.upload_stream(
-          {
-            resource_type: "image",
-            folder: "swoosh-cars",
-            transformation: [
-              { width: 1200, height: 800, crop: "limit" },
-              { quality: "auto" },
-              { format: "auto" }
-            ]
-          },
-          (error, result) => {
-            if (error) {
-              console.error('Cloudinary upload error:', error);
-              reject(error);
-            } else {
-              resolve(result?.secure_url);
-            }
-          }
-        ).end(file.buffer);
-      });
-    });
+// POST /api/upload/images - Upload multiple images to Cloudinary
+router.post("/images", authenticate, upload.array('images', 10), asyncHandler(async (req: any, res) => {
+  console.log('Upload request received');
+  console.log('Files:', req.files?.length || 0);
+  
+  if (!req.files || req.files.length === 0) {
+    throw new BadRequestError("No images provided");
+  }
 
-    const urls = await Promise.all(uploadPromises);
-    
-    res.json({
-      message: "Images uploaded successfully",
-      urls: urls.filter(url => url) // Filter out any failed uploads
+  // Check if Cloudinary is configured
+  if (!isCloudinaryConfigured()) {
+    console.log('Using mock upload - Cloudinary not configured');
+    // Return mock URLs for development
+    const mockUrls = req.files.map((_: any, index: number) => 
+      `https://via.placeholder.com/800x600/1B3F79/FFFFFF?text=Car+Image+${index + 1}`
+    );
+    return res.json({
+      message: "Images uploaded successfully (mock)",
+      urls: mockUrls
     });
-  } catch (error: any) {
-    console.error("Upload error:", error);
-    res.status(500).json({ message: "Upload failed", error: error.message });
   }
-});
+
+  const urls = await Promise.all(req.files.map((file: Express.Multer.File) =>
+    uploadToCloudinary(file, "swoosh-cars", [
+      { width: 1200, height: 800, crop: "limit" },
+      { quality: "auto" },
+      { format: "auto" }
+    ])
+  ));
+  
+  res.json({
+    message: "Images uploaded successfully",
+    urls: urls.filter(url => url) // Filter out any failed uploads
+  });
+}));
+
+// POST /api/upload/avatar - Upload a profile picture and set it on the current user
+router.post("/avatar", authenticate, upload.single('avatar'), asyncHandler(async (req: any, res) => {
+  if (!req.file) {
+    throw new BadRequestError("No image provided");
+  }
+
+  const avatar = isCloudinaryConfigured()
+    ? await uploadToCloudinary(req.file, "swoosh-avatars", [
+      { width: 400, height: 400, crop: "fill", gravity: "face" },
+      { quality: "auto" },
+      { format: "auto" }
+    ])
+    : `https://via.placeholder.com/400x400/1B3F79/FFFFFF?text=${encodeURIComponent(req.user.name.charAt(0))}`;
+
+  req.user.avatar = avatar;
+  await req.user.save();
+
+  res.json({ message: "Avatar updated", avatar });
+}));
 
 export default router;
\ No newline at end of file
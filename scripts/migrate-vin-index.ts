@@ -0,0 +1,43 @@
+/**
+ * Replace the unique index on `ownershipHistory.vin` with a plain sparse one.
+ *
+ * Databases created before the listing risk check still have the unique index,
+ * which rejects a second listing with the same VIN before the `duplicate_vin`
+ * rule can flag it, and makes Mongoose report an index options conflict.
+ * Safe to run more than once.
+ *
+ *   npm run migrate:vin-index
+ */
+
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+
+const INDEX_KEY = 'ownershipHistory.vin';
+
+const migrate = async () => {
+  await connectDB();
+  const cars = mongoose.connection.collection('cars');
+
+  const indexes = await cars.indexes();
+  const existing = indexes.find(index => Object.keys(index.key).length === 1 && index.key[INDEX_KEY] === 1);
+
+  if (existing && !existing.unique) {
+    console.log(`Index ${existing.name} is already non-unique; nothing to do`);
+    return;
+  }
+
+  if (existing) {
+    await cars.dropIndex(existing.name!);
+    console.log(`Dropped unique index ${existing.name}`);
+  }
+
+  await cars.createIndex({ [INDEX_KEY]: 1 }, { sparse: true });
+  console.log(`Created non-unique index on ${INDEX_KEY}`);
+};
+
+migrate()
+  .catch(error => {
+    console.error('VIN index migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import Car from '../models/Car';
+import User from '../models/User';
+import { AuthTokenService } from './authTokenService';
+import { MailService } from './mailService';
+import { BadRequestError, UnauthorizedError } from '../utils/httpErrors';
+
+export const profileUpdateSchema = z.object({
+  name: z.string().trim().min(2).max(100).optional(),
+  phone: z.string().trim().min(10).max(20).optional(),
+  avatar: z.string().url().nullable().optional(),
+  location: z.string().trim().max(100).optional(),
+  responseTime: z.string().trim().max(100).optional()
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6)
+});
+
+export const deactivateSchema = z.object({
+  password: z.string().min(1)
+});
+
+type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+// Which user field holds the id of the currently usable token, and how long it lives
+const TOKEN_SETTINGS: Record<AccountTokenPurpose, { field: string; expiresIn: string; label: string }> = {
+  email_verification: { field: 'emailVerificationTokenId', expiresIn: '24h', label: '24 hours' },
+  password_reset: { field: 'passwordResetTokenId', expiresIn: '1h', label: '1 hour' }
+};
+
+// One reset email per account per interval, so the endpoint can't flood an inbox
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000;
+
+export class AccountService {
+  // Signed, expiring token. Issuing a new one replaces the stored id, so only the
+  // latest token for a purpose is accepted, and consuming it clears the id.
+  private static async issueToken(userId: any, purpose: AccountTokenPurpose) {
+    const { field, expiresIn } = TOKEN_SETTINGS[purpose];
+    const tokenId = randomUUID();
+    await User.updateOne({ _id: userId }, { $set: { [field]: tokenId } });
+
+    return jwt.sign({ sub: userId.toString() }, process.env.JWT_SECRET!, {
+      audience: purpose,
+      jwtid: tokenId,
+      expiresIn: expiresIn as jwt.SignOptions['expiresIn']
+    });
+  }
+
+  // Verify a token and atomically mark it used; returns the user it belongs to
+  private static async consumeToken(token: string, purpose: AccountTokenPurpose) {
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: purpose }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new BadRequestError('Invalid or expired token');
+    }
+
+    const { field } = TOKEN_SETTINGS[purpose];
+    const user = await User.findOneAndUpdate(
+      { _id: payload.sub, [field]: payload.jti },
+      { $unset: { [field]: 1 } },
+      { new: true }
+    );
+    if (!user) {
+      throw new BadRequestError('Invalid or expired token');
+    }
+    return user;
+  }
+
+  static async sendVerificationEmail(user: any) {
+    if (user.isVerified) {
+      throw new BadRequestError('Email is already verified');
+    }
+
+    const token = await this.issueToken(user._id, 'email_verification');
+    await MailService.sendVerificationEmail(user, token, TOKEN_SETTINGS.email_verification.label);
+  }
+
+  static async verifyEmail(token: string) {
+    const user = await this.consumeToken(token, 'email_verification');
+    user.isVerified = true;
+    await user.save();
+    return user;
+  }
+
+  // Sends a reset link that replaces any earlier one. Sessions are only ended once
+  // the link is used, so knowing an address isn't enough to sign its owner out.
+  // Unknown emails and repeat requests are ignored without saying so.
+  static async requestPasswordReset(email: string) {
+    const user = await User.findOneAndUpdate(
+      {
+        email,
+        $or: [
+          { passwordResetRequestedAt: null },
+          { passwordResetRequestedAt: { $lte: new Date(Date.now() - RESET_REQUEST_INTERVAL_MS) } }
+        ]
+      },
+      { $set: { passwordResetRequestedAt: new Date() } },
+      { new: true }
+    );
+    if (!user) return null;
+
+    const token = await this.issueToken(user._id, 'password_reset');
+    await MailService.sendPasswordResetEmail(user, token, TOKEN_SETTINGS.password_reset.label);
+    return user;
+  }
+
+  static async resetPassword(token: string, password: string) {
+    const user = await this.consumeToken(token, 'password_reset');
+    user.password = await bcrypt.hash(password, 12);
+    user.passwordChangedAt = new Date();
+    // The link arrived by email, which proves the address
+    user.isVerified = true;
+    await user.save();
+
+    await AuthTokenService.revokeAllSessions(user._id.toString());
+    return user;
+  }
+
+  static async updateProfile(user: any, updates: z.infer<typeof profileUpdateSchema>) {
+    const { avatar, ...fields } = updates;
+    user.set(fields);
+    if (avatar !== undefined) user.avatar = avatar ?? undefined;
+    await user.save();
+    return user;
+  }
+
+  private static async checkPassword(userId: any, password: string) {
+    const user = await User.findById(userId).select('+password');
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      throw new UnauthorizedError('Current password is incorrect');
+    }
+    return user;
+  }
+
+  // Keeps the session making the change and signs out every other one
+  static async changePassword(userId: any, currentPassword: string, newPassword: string, sessionId?: string) {
+    const user = await this.checkPassword(userId, currentPassword);
+    user.password = await bcrypt.hash(newPassword, 12);
+    user.passwordChangedAt = new Date();
+    await user.save();
+
+    await AuthTokenService.revokeAllSessions(user._id.toString(), sessionId);
+    return user;
+  }
+
+  // Deactivated accounts can't sign in and their active listings are hidden
+  static async deactivate(userId: any, password: string) {
+    const user = await this.checkPassword(userId, password);
+    user.isActive = false;
+    await user.save();
+
+    await this.hideListings(user._id);
+    await AuthTokenService.revokeAllSessions(user._id.toString());
+    return user;
+  }
+
+  static async hideListings(userId: any) {
+    await Car.updateMany(
+      { seller: userId, status: 'active' },
+      { $set: { status: 'inactive', hiddenWithAccount: true } }
+    );
+  }
+
+  // Put back the listings that were hidden with the account. Moderated listings
+  // keep their status; only an admin can bring those back.
+  static async restoreListings(userId: any) {
+    await Car.updateMany(
+      { seller: userId, hiddenWithAccount: true, status: 'inactive' },
+      { $set: { status: 'active', hiddenWithAccount: false } }
+    );
+  }
+}
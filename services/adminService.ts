@@ -0,0 +1,434 @@
+import { z } from 'zod';
+import AuditLog, { AuditAction, AUDIT_ACTIONS } from '../models/AuditLog';
+import Car from '../models/Car';
+import { REPORT_RESOLUTIONS } from '../models/ListingReport';
+import User from '../models/User';
+import { AccountService } from './accountService';
+import { AuthTokenService } from './authTokenService';
+import { InboxService } from './inboxService';
+import { ListingRiskService } from './listingRiskService';
+import { MessageService } from './messageService';
+import { ReportService } from './reportService';
+import { disconnectSessions } from '../socket';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/httpErrors';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const moderationReasonSchema = z.object({
+  reason: z.string().trim().min(3).max(500)
+});
+
+export const optionalReasonSchema = z.object({
+  reason: z.string().trim().max(500).optional()
+});
+
+export const dealerVerificationSchema = z.object({
+  verified: z.boolean().default(true)
+});
+
+// A note is required whenever the seller is asked to change something or loses the listing
+export const reportResolutionSchema = z.object({
+  action: z.enum(REPORT_RESOLUTIONS),
+  note: z.string().trim().min(3).max(500).optional()
+}).refine(data => data.action === 'dismiss' || !!data.note, {
+  message: 'A note is required to warn the seller or take the listing down',
+  path: ['note']
+});
+
+// Who is acting, for the audit log
+export interface AdminContext {
+  admin: any;
+  ip?: string;
+  requestId?: string;
+}
+
+interface AuditEntry {
+  action: AuditAction;
+  targetType?: 'user' | 'car' | 'message';
+  targetId?: any;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+const paginate = (query: any) => {
+  const page = Math.max(1, Number(query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(query.limit) || 20));
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+const paginationResult = (page: number, limit: number, total: number) => ({
+  page,
+  limit,
+  total,
+  pages: Math.ceil(total / limit)
+});
+
+export class AdminService {
+  private static async audit(ctx: AdminContext, entry: AuditEntry) {
+    await AuditLog.create({
+      ...entry,
+      actor: ctx.admin._id,
+      ip: ctx.ip,
+      requestId: ctx.requestId
+    });
+  }
+
+  // Users filtered by free text (name, email, phone), role and account state
+  static async listUsers(ctx: AdminContext, query: any) {
+    const { page, limit, skip } = paginate(query);
+    const filter: any = {};
+
+    if (query.q) {
+      const pattern = new RegExp(escapeRegex(String(query.q)), 'i');
+      filter.$or = [{ name: pattern }, { email: pattern }, { phone: pattern }];
+    }
+    if (['user', 'vendor', 'admin'].includes(query.role)) filter.role = query.role;
+    if (query.status === 'active') filter.isActive = true;
+    if (query.status === 'suspended') filter['suspension.suspendedAt'] = { $exists: true };
+    if (query.status === 'deactivated') {
+      filter.isActive = false;
+      filter['suspension.suspendedAt'] = { $exists: false };
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      User.countDocuments(filter)
+    ]);
+
+    await this.audit(ctx, {
+      action: 'users.list',
+      metadata: { q: query.q, role: query.role, status: query.status, page }
+    });
+
+    return { users, pagination: paginationResult(page, limit, total) };
+  }
+
+  static async getUser(ctx: AdminContext, userId: string) {
+    const user = await User.findById(userId).lean();
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const listings = await Car.aggregate([
+      { $match: { seller: user._id } },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+
+    await this.audit(ctx, { action: 'users.view', targetType: 'user', targetId: user._id });
+
+    return {
+      user,
+      listings: Object.fromEntries(listings.map(item => [item._id, item.count]))
+    };
+  }
+
+  // Admins can't suspend themselves or each other
+  private static async findManageableUser(userId: string) {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.role === 'admin') {
+      throw new ForbiddenError('Admin accounts cannot be suspended');
+    }
+    return user;
+  }
+
+  static async suspendUser(ctx: AdminContext, userId: string, reason: string) {
+    const user = await this.findManageableUser(userId);
+    if (user.suspension?.suspendedAt) {
+      throw new BadRequestError('User is already suspended');
+    }
+
+    user.isActive = false;
+    user.suspension = { reason, suspendedBy: ctx.admin._id, suspendedAt: new Date() };
+    await user.save();
+
+    await AccountService.hideListings(user._id);
+    await AuthTokenService.revokeAllSessions(user._id.toString());
+    await disconnectSessions(user._id.toString());
+
+    await this.audit(ctx, { action: 'users.suspend', targetType: 'user', targetId: user._id, reason });
+    return user;
+  }
+
+  // Lifts a suspension or a self-deactivation and brings hidden listings back
+  static async reactivateUser(ctx: AdminContext, userId: string, reason?: string) {
+    const user = await this.findManageableUser(userId);
+    if (user.isActive) {
+      throw new BadRequestError('User is already active');
+    }
+
+    const wasSuspended = !!user.suspension?.suspendedAt;
+    user.isActive = true;
+    user.suspension = undefined;
+    await user.save();
+
+    await AccountService.restoreListings(user._id);
+
+    await this.audit(ctx, {
+      action: 'users.reactivate',
+      targetType: 'user',
+      targetId: user._id,
+      reason,
+      metadata: { wasSuspended }
+    });
+    return user;
+  }
+
+  static async setDealerVerification(ctx: AdminContext, userId: string, verified: boolean) {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.role !== 'vendor') {
+      throw new BadRequestError('Only vendor accounts can be verified as dealers');
+    }
+
+    user.dealerVerification = verified
+      ? { verified: true, verifiedBy: ctx.admin._id, verifiedAt: new Date() }
+      : { verified: false };
+    await user.save();
+
+    await this.audit(ctx, {
+      action: verified ? 'users.verifyDealer' : 'users.unverifyDealer',
+      targetType: 'user',
+      targetId: user._id
+    });
+    return user;
+  }
+
+  // Listings in any status, including removed ones
+  static async listCars(ctx: AdminContext, query: any) {
+    const { page, limit, skip } = paginate(query);
+    const filter: any = {};
+
+    if (query.status) filter.status = query.status;
+    if (query.seller) filter.seller = query.seller;
+    if (query.q) {
+      const pattern = new RegExp(escapeRegex(String(query.q)), 'i');
+      filter.$or = [{ make: pattern }, { model: pattern }, { 'ownershipHistory.vin': pattern }];
+    }
+
+    const [cars, total] = await Promise.all([
+      Car.find(filter)
+        .sort({ listedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .select('make model year price status seller listedAt moderation images')
+        .populate('seller', 'name email role isActive')
+        .lean(),
+      Car.countDocuments(filter)
+    ]);
+
+    await this.audit(ctx, {
+      action: 'cars.list',
+      metadata: { q: query.q, status: query.status, seller: query.seller, page }
+    });
+
+    return { cars, pagination: paginationResult(page, limit, total) };
+  }
+
+  private static async notifySeller(car: any, action: 'takedown' | 'restore' | 'warn' | 'dismiss', reason?: string) {
+    const title = `${car.year} ${car.make} ${car.model}`;
+    const messages = {
+      takedown: `Your ${title} listing was removed by our moderators: ${reason}`,
+      restore: `Your ${title} listing was restored`,
+      warn: `Buyers reported your ${title} listing. Please update it: ${reason}`,
+      dismiss: `Buyer reports about your ${title} listing were reviewed and dismissed`
+    };
+    await InboxService.deliver(car.seller.toString(), 'listingModerated', {
+      type: 'moderation',
+      carId: car._id,
+      action,
+      reason,
+      status: car.status,
+      message: messages[action],
+      timestamp: new Date(),
+      priority: 'high'
+    });
+  }
+
+  // Status a moderated listing goes back to. Listings of inactive sellers stay
+  // hidden until the account is reactivated.
+  private static async restoredStatus(car: any) {
+    const status = car.moderation?.previousStatus || 'inactive';
+    if (status !== 'active') return status;
+
+    const seller = await User.findById(car.seller).select('isActive').lean();
+    if (!seller?.isActive) {
+      car.hiddenWithAccount = true;
+      return 'inactive';
+    }
+    return status;
+  }
+
+  static async takedownCar(ctx: AdminContext, carId: string, reason: string) {
+    const car = await Car.findById(carId);
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.status === 'removed') {
+      throw new BadRequestError('Listing is already removed');
+    }
+
+    // A listing under review keeps the status it had before the reports, and one
+    // hidden with its seller's account was active. Restoring decides about the account.
+    const previousStatus = car.status === 'under_review'
+      ? car.moderation?.previousStatus || 'active'
+      : car.hiddenWithAccount ? 'active' : car.status;
+    car.hiddenWithAccount = false;
+    car.moderation = {
+      action: 'takedown',
+      reason,
+      actionedBy: ctx.admin._id,
+      actionedAt: new Date(),
+      previousStatus
+    };
+    car.status = 'removed';
+    await car.save();
+
+    await this.audit(ctx, {
+      action: 'cars.takedown',
+      targetType: 'car',
+      targetId: car._id,
+      reason,
+      metadata: { previousStatus }
+    });
+    await this.notifySeller(car, 'takedown', reason);
+    return car;
+  }
+
+  // Put a removed listing back in the status it had before the takedown
+  static async restoreCar(ctx: AdminContext, carId: string, reason?: string) {
+    const car = await Car.findById(carId).select('+riskAssessment');
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.status !== 'removed') {
+      throw new BadRequestError('Listing is not removed');
+    }
+
+    const status = await this.restoredStatus(car);
+    car.status = status;
+    car.moderation = {
+      action: 'restore',
+      reason,
+      actionedBy: ctx.admin._id,
+      actionedAt: new Date()
+    };
+    ListingRiskService.clear(car, ctx.admin._id);
+    await car.save();
+
+    await this.audit(ctx, {
+      action: 'cars.restore',
+      targetType: 'car',
+      targetId: car._id,
+      reason,
+      metadata: { status }
+    });
+    await this.notifySeller(car, 'restore', reason);
+    return car;
+  }
+
+  static async getReportQueue(ctx: AdminContext, query: any) {
+    const { page, limit } = paginate(query);
+    const { items, total } = await ReportService.getQueue(page, limit);
+
+    await this.audit(ctx, { action: 'reports.list', metadata: { page } });
+    return { items, pagination: paginationResult(page, limit, total) };
+  }
+
+  static async getCarReports(ctx: AdminContext, carId: string) {
+    const car = await Car.findById(carId)
+      .select('make model year price status seller moderation images description')
+      .populate('seller', 'name email role isActive')
+      .lean();
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+
+    const reports = await ReportService.getReportsForCar(carId);
+    await this.audit(ctx, { action: 'reports.view', targetType: 'car', targetId: car._id });
+    return { car, reports };
+  }
+
+  // Close every open report on a listing. Dismissing or warning puts a listing
+  // under review back on the marketplace; taking it down removes it.
+  static async resolveReports(ctx: AdminContext, carId: string, resolution: z.infer<typeof reportResolutionSchema>) {
+    const { action, note } = resolution;
+    const car = await Car.findById(carId).select('+riskAssessment');
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+    const openReports = await ReportService.getOpenReports(carId);
+    if (openReports.length === 0) {
+      throw new BadRequestError('Listing has no open reports');
+    }
+
+    if (action === 'takedown') {
+      if (car.status !== 'removed') {
+        await this.takedownCar(ctx, carId, note!);
+      }
+    } else {
+      if (car.status === 'under_review') {
+        car.status = await this.restoredStatus(car);
+        car.moderation = {
+          action: 'restore',
+          reason: note,
+          actionedBy: ctx.admin._id,
+          actionedAt: new Date()
+        };
+      }
+      // The listing was reviewed; its current risks shouldn't send it back to the queue
+      ListingRiskService.clear(car, ctx.admin._id);
+      await car.save();
+      await this.notifySeller(car, action, note);
+    }
+
+    const resolved = await ReportService.resolveOpenReports(car._id, {
+      action,
+      note,
+      resolvedBy: ctx.admin._id
+    });
+
+    await this.audit(ctx, {
+      action: 'reports.resolve',
+      targetType: 'car',
+      targetId: car._id,
+      reason: note,
+      metadata: { resolution: action, reports: resolved }
+    });
+
+    return { car: await Car.findById(carId).lean(), resolved };
+  }
+
+  static async listThreads(ctx: AdminContext, query: any) {
+    const threads = await MessageService.getAllThreads({ status: query.status });
+    await this.audit(ctx, { action: 'messages.list', metadata: { status: query.status } });
+    return threads;
+  }
+
+  static async getAuditLog(ctx: AdminContext, query: any) {
+    const { page, limit, skip } = paginate(query);
+    const filter: any = {};
+
+    if (query.actor) filter.actor = query.actor;
+    if (AUDIT_ACTIONS.includes(query.action)) filter.action = query.action;
+    if (query.targetId) filter.targetId = query.targetId;
+
+    const [entries, total] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('actor', 'name email')
+        .lean(),
+      AuditLog.countDocuments(filter)
+    ]);
+
+    await this.audit(ctx, { action: 'auditLog.list', metadata: { actor: query.actor, action: query.action, page } });
+
+    return { entries, pagination: paginationResult(page, limit, total) };
+  }
+}
@@ -0,0 +1,142 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import RefreshToken from '../models/RefreshToken';
+import User from '../models/User';
+import { UnauthorizedError } from '../utils/httpErrors';
+
+const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: string;
+  sid: string;
+}
+
+interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export class AuthTokenService {
+  static signAccessToken(user: any, sessionId: string) {
+    return jwt.sign(
+      { id: user._id.toString(), email: user.email, role: user.role, sid: sessionId },
+      process.env.JWT_SECRET!,
+      { expiresIn: ACCESS_TOKEN_TTL }
+    );
+  }
+
+  // Store a new refresh token for a session; only its hash is persisted
+  private static async createRefreshToken(userId: any, family: string, meta: SessionMeta = {}) {
+    const refreshToken = randomBytes(48).toString('base64url');
+    await RefreshToken.create({
+      user: userId,
+      tokenHash: hashToken(refreshToken),
+      family,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS),
+      userAgent: meta.userAgent,
+      ip: meta.ip
+    });
+    return refreshToken;
+  }
+
+  private static tokenResponse(user: any, sessionId: string, refreshToken: string) {
+    const token = this.signAccessToken(user, sessionId);
+    const { iat, exp } = jwt.decode(token) as any;
+    return { token, refreshToken, expiresIn: exp - iat };
+  }
+
+  // Start a new session (login or registration)
+  static async issueTokens(user: any, meta: SessionMeta = {}) {
+    const sessionId = randomUUID();
+    const refreshToken = await this.createRefreshToken(user._id, sessionId, meta);
+    return this.tokenResponse(user, sessionId, refreshToken);
+  }
+
+  // Exchange a refresh token for a new pair. Presenting a token that was already
+  // rotated means it leaked, so the whole session is revoked.
+  static async rotate(refreshToken: string, meta: SessionMeta = {}) {
+    const tokenHash = hashToken(refreshToken);
+    const stored = await RefreshToken.findOne({ tokenHash });
+    if (!stored || stored.expiresAt <= new Date()) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+    if (stored.revokedAt) {
+      await this.revokeFamily(stored.family, 'reuse_detected');
+      throw new UnauthorizedError('Refresh token reuse detected; please log in again');
+    }
+
+    const user = await User.findById(stored.user);
+    if (!user || !user.isActive) {
+      await this.revokeFamily(stored.family, 'logout');
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    // Issue the replacement before revoking so the session never looks revoked
+    // to concurrent requests
+    const nextToken = await this.createRefreshToken(user._id, stored.family, meta);
+    const claimed = await RefreshToken.updateOne(
+      { _id: stored._id, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: 'rotated', replacedByHash: hashToken(nextToken) } }
+    );
+    if (claimed.modifiedCount === 0) {
+      // Another request rotated this token first
+      await this.revokeFamily(stored.family, 'reuse_detected');
+      throw new UnauthorizedError('Refresh token reuse detected; please log in again');
+    }
+
+    return this.tokenResponse(user, stored.family, nextToken);
+  }
+
+  static async revokeFamily(family: string, reason: 'logout' | 'reuse_detected') {
+    await RefreshToken.updateMany(
+      { family, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
+  // Log out the session a refresh token belongs to; returns its user and session id
+  static async revokeSession(refreshToken: string) {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) }).lean();
+    if (!stored) return null;
+
+    await this.revokeFamily(stored.family, 'logout');
+    return { userId: stored.user.toString(), sessionId: stored.family };
+  }
+
+  // End every session of a user, optionally keeping the one making the request
+  static async revokeAllSessions(userId: string, exceptSessionId?: string) {
+    await RefreshToken.updateMany(
+      { user: userId, revokedAt: null, ...(exceptSessionId && { family: { $ne: exceptSessionId } }) },
+      { $set: { revokedAt: new Date(), revokedReason: 'logout_all' } }
+    );
+  }
+
+  static async isSessionActive(sessionId: string) {
+    return !!(await RefreshToken.exists({
+      family: sessionId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }));
+  }
+
+  // Verify an access token and its session; null when invalid, expired or revoked
+  static async verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+    let payload: AccessTokenPayload;
+    try {
+      payload = jwt.verify(token, process.env.JWT_SECRET!) as AccessTokenPayload;
+    } catch (error) {
+      return null;
+    }
+
+    if (!payload.sid || !(await this.isSessionActive(payload.sid))) {
+      return null;
+    }
+    return payload;
+  }
+}
@@ -0,0 +1,242 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Booking from '../models/Booking';
+import Car from '../models/Car';
+import { InboxService } from './inboxService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/httpErrors';
+import { RentalPricingService } from './rentalPricingService';
+import { countRentalDays, MAX_RENTAL_DAYS } from './rentalPricing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bookings in these states hold the car
+export const BLOCKING_STATUSES = ['pending', 'confirmed', 'active'];
+
+// How far ahead the vendor dashboard lists pickups
+const UPCOMING_PICKUP_DAYS = 7;
+const DASHBOARD_BOOKING_LIMIT = 5;
+
+const bookingLocationSchema = z.object({
+  address: z.string().trim().optional(),
+  city: z.string().trim().min(1),
+  state: z.string().trim().min(1)
+});
+
+export const bookingCreateSchema = z.object({
+  carId: z.string().min(1),
+  pickupDate: z.coerce.date(),
+  returnDate: z.coerce.date(),
+  pickupLocation: bookingLocationSchema.optional(),
+  returnLocation: bookingLocationSchema.optional(),
+  notes: z.string().max(1000).optional()
+}).refine(data => data.returnDate > data.pickupDate, {
+  message: 'Return date must be after pickup date',
+  path: ['returnDate']
+}).refine(data => countRentalDays(data.pickupDate, data.returnDate) <= MAX_RENTAL_DAYS, {
+  message: `Rentals are limited to ${MAX_RENTAL_DAYS} days`,
+  path: ['returnDate']
+});
+
+export class BookingService {
+  // Query for blocking bookings that overlap [from, to)
+  private static overlapFilter(carId: any, from: Date, to: Date) {
+    return {
+      car: carId,
+      status: { $in: BLOCKING_STATUSES },
+      pickupDate: { $lt: to },
+      returnDate: { $gt: from }
+    };
+  }
+
+  // Booked ranges for a car, for availability calendars
+  static async getAvailability(carId: string, from: Date, to: Date) {
+    const bookings = await Booking.find(this.overlapFilter(carId, from, to))
+      .sort({ pickupDate: 1 })
+      .select('pickupDate returnDate status')
+      .lean();
+
+    return bookings.map(booking => ({
+      pickupDate: booking.pickupDate,
+      returnDate: booking.returnDate,
+      status: booking.status
+    }));
+  }
+
+  static async createBooking(renter: any, data: z.infer<typeof bookingCreateSchema>) {
+    const car = await Car.findById(data.carId);
+    if (!car || car.status !== 'active') {
+      throw new NotFoundError('Car not found');
+    }
+    if (!car.rental?.available) {
+      throw new BadRequestError('Car is not available for rent');
+    }
+    if (car.seller.toString() === renter.id) {
+      throw new BadRequestError('You cannot book your own car');
+    }
+    if (data.pickupDate.getTime() < Date.now() - DAY_MS) {
+      throw new BadRequestError('Pickup date is in the past');
+    }
+
+    const carLocation = { city: car.location.city, state: car.location.state };
+    const pickupLocation = data.pickupLocation || carLocation;
+    const returnLocation = data.returnLocation || pickupLocation;
+
+    const quote = await RentalPricingService.quoteForCar(car, {
+      pickupDate: data.pickupDate,
+      returnDate: data.returnDate,
+      pickupLocation,
+      returnLocation
+    });
+    if (!quote) {
+      throw new BadRequestError('Car is not available for rent');
+    }
+    const days = quote.days;
+
+    const booking = await Booking.create({
+      car: car._id,
+      renter: renter.id,
+      vendor: car.seller,
+      pickupDate: data.pickupDate,
+      returnDate: data.returnDate,
+      pickupLocation,
+      returnLocation,
+      dailyRate: quote.lineItems[0].unitPrice,
+      days,
+      totalPrice: quote.total,
+      priceBreakdown: quote,
+      notes: data.notes
+    });
+
+    // Insert first, then look for overlaps. Concurrent requests see each other and
+    // both back off, so a double booking can never survive.
+    const conflict = await Booking.exists({
+      ...this.overlapFilter(car._id, data.pickupDate, data.returnDate),
+      _id: { $ne: booking._id }
+    });
+    if (conflict) {
+      await Booking.deleteOne({ _id: booking._id });
+      throw new ConflictError('Car is already booked for these dates');
+    }
+
+    await InboxService.deliver(car.seller.toString(), 'newBooking', {
+      type: 'booking',
+      bookingId: booking._id,
+      carId: car._id,
+      car: { make: car.make, model: car.model, year: car.year },
+      pickupDate: booking.pickupDate,
+      returnDate: booking.returnDate,
+      message: `${renter.name} booked your ${car.year} ${car.make} ${car.model} for ${days} day${days === 1 ? '' : 's'}`,
+      timestamp: new Date(),
+      priority: 'high'
+    });
+
+    return booking;
+  }
+
+  static async cancelBooking(user: any, bookingId: string, reason?: string) {
+    const booking = await Booking.findById(bookingId).populate('car', 'make model year');
+    const isRenter = booking?.renter.toString() === user.id;
+    const isVendor = booking?.vendor.toString() === user.id;
+    if (!booking || (!isRenter && !isVendor)) {
+      throw new NotFoundError('Booking not found');
+    }
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      throw new BadRequestError(`Cannot cancel a ${booking.status} booking`);
+    }
+
+    booking.status = 'cancelled';
+    booking.cancelledAt = new Date();
+    booking.cancelledBy = user.id;
+    booking.cancellationReason = reason;
+    await booking.save();
+
+    const car: any = booking.car;
+    const otherParty = isRenter ? booking.vendor : booking.renter;
+    await InboxService.deliver(otherParty.toString(), 'bookingCancelled', {
+      type: 'booking',
+      bookingId: booking._id,
+      carId: car._id,
+      reason,
+      message: `Booking for ${car.year} ${car.make} ${car.model} on ${booking.pickupDate.toDateString()} was cancelled`,
+      timestamp: new Date(),
+      priority: 'high'
+    });
+
+    return booking;
+  }
+
+  // Load a booking if the user is its renter or vendor
+  static async findForParticipant(user: any, bookingId: string) {
+    const booking = await Booking.findById(bookingId)
+      .populate('car', 'make model year images location rental')
+      .populate('renter', 'name email phone')
+      .lean();
+    if (!booking) return null;
+
+    const renterId = (booking.renter as any)._id?.toString();
+    return renterId === user.id || booking.vendor.toString() === user.id ? booking : null;
+  }
+
+  // Booking counts plus the next pickups and the cars out on rent, for the vendor dashboard
+  static async getVendorSummary(vendorId: string, now = new Date()) {
+    const vendor = new mongoose.Types.ObjectId(vendorId);
+    const pickupWindowEnd = new Date(now.getTime() + UPCOMING_PICKUP_DAYS * DAY_MS);
+
+    const [byStatus, upcomingPickups, activeRentals, overdueReturns] = await Promise.all([
+      Booking.aggregate([
+        { $match: { vendor } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ]),
+      Booking.find({
+        vendor,
+        status: { $in: ['pending', 'confirmed'] },
+        pickupDate: { $gte: now, $lte: pickupWindowEnd }
+      })
+        .sort({ pickupDate: 1 })
+        .limit(DASHBOARD_BOOKING_LIMIT)
+        .populate('car', 'make model year images')
+        .populate('renter', 'name email phone')
+        .lean(),
+      Booking.find({ vendor, status: 'active' })
+        .sort({ returnDate: 1 })
+        .limit(DASHBOARD_BOOKING_LIMIT)
+        .populate('car', 'make model year images')
+        .populate('renter', 'name email phone')
+        .lean(),
+      Booking.countDocuments({ vendor, status: 'active', returnDate: { $lt: now } })
+    ]);
+
+    const counts: Record<string, number> = { pending: 0, confirmed: 0, active: 0, completed: 0, cancelled: 0 };
+    byStatus.forEach(item => { counts[item._id] = item.count; });
+
+    return { counts, overdueReturns, upcomingPickups, activeRentals };
+  }
+
+  static async getBookings(filter: any, options: any = {}) {
+    const { page = 1, limit = 20, status } = options;
+    if (status) filter.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [bookings, total] = await Promise.all([
+      Booking.find(filter)
+        .sort({ pickupDate: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate('car', 'make model year images location')
+        .populate('renter', 'name email phone')
+        .lean(),
+      Booking.countDocuments(filter)
+    ]);
+
+    return {
+      bookings,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import Car from '../models/Car';
+import Comparison from '../models/Comparison';
+import { NotFoundError } from '../utils/httpErrors';
+import { roundMoney } from './rentalPricing';
+import { buildHistoryReport } from './vehicleHistoryService';
+
+const FUEL_PRICE_PER_GALLON = Number(process.env.FUEL_PRICE_PER_GALLON) || 3.5;
+const ELECTRICITY_PRICE_PER_KWH = Number(process.env.ELECTRICITY_PRICE_PER_KWH) || 0.16;
+// EPA energy content of a gallon of gasoline; turns MPGe into kWh per mile
+const KWH_PER_GALLON_EQUIVALENT = 33.7;
+
+export const ownershipAssumptionsSchema = z.object({
+  annualMiles: z.coerce.number().int().min(1000).max(100000).default(12000),
+  years: z.coerce.number().int().min(1).max(15).default(5),
+  fuelPrice: z.coerce.number().positive().max(20).default(FUEL_PRICE_PER_GALLON),
+  electricityPrice: z.coerce.number().positive().max(5).default(ELECTRICITY_PRICE_PER_KWH)
+});
+
+const carIdsSchema = z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid car id'))
+  .min(2, 'Compare at least 2 cars')
+  .max(4, 'Compare at most 4 cars');
+
+const distinct = (ids: string[]) => [...new Set(ids.map(id => id.trim()).filter(Boolean))];
+
+export const compareQuerySchema = ownershipAssumptionsSchema.extend({
+  ids: z.string()
+    .transform(value => distinct(value.split(',')))
+    .pipe(carIdsSchema)
+});
+
+export const compareShareSchema = ownershipAssumptionsSchema.extend({
+  ids: z.array(z.string()).transform(distinct).pipe(carIdsSchema)
+});
+
+export type OwnershipAssumptions = z.infer<typeof ownershipAssumptionsSchema>;
+
+type FieldValue = number | string | boolean | null;
+
+interface FieldDefinition {
+  key: string;
+  group: 'overview' | 'performance' | 'details' | 'warranty' | 'financing' | 'history' | 'ownershipCost';
+  label: string;
+  unit?: string;
+  // Which end of the range is the better deal; fields without it are informational
+  better?: 'higher' | 'lower';
+  value: (car: any, derived: DerivedValues) => FieldValue;
+}
+
+interface DerivedValues {
+  pricePerHorsepower: number | null;
+  combinedMpg: number | null;
+  costPerMile: number | null;
+  annualEnergyCost: number | null;
+  energyCostOverPeriod: number | null;
+  totalCostOfOwnership: number | null;
+  accidentScore: number;
+  titleRiskScore: number;
+  serviceRecordCount: number;
+}
+
+const FIELDS: FieldDefinition[] = [
+  { key: 'price', group: 'overview', label: 'Price', unit: 'USD', better: 'lower', value: car => car.price },
+  { key: 'year', group: 'overview', label: 'Year', better: 'higher', value: car => car.year },
+  { key: 'mileage', group: 'overview', label: 'Mileage', unit: 'mi', better: 'lower', value: car => car.mileage },
+  { key: 'condition', group: 'overview', label: 'Condition', value: car => car.condition },
+  { key: 'fuelType', group: 'overview', label: 'Fuel type', value: car => car.fuelType },
+  { key: 'transmission', group: 'overview', label: 'Transmission', value: car => car.transmission },
+  { key: 'bodyType', group: 'overview', label: 'Body type', value: car => car.bodyType },
+
+  { key: 'engine', group: 'performance', label: 'Engine', value: car => car.enginePerformance?.engine },
+  { key: 'horsepower', group: 'performance', label: 'Horsepower', unit: 'hp', better: 'higher', value: car => car.enginePerformance?.horsepower },
+  { key: 'torque', group: 'performance', label: 'Torque', unit: 'lb-ft', better: 'higher', value: car => car.enginePerformance?.torque },
+  { key: 'drivetrain', group: 'performance', label: 'Drivetrain', value: car => car.enginePerformance?.drivetrain },
+  { key: 'pricePerHorsepower', group: 'performance', label: 'Price per horsepower', unit: 'USD/hp', better: 'lower', value: (_car, derived) => derived.pricePerHorsepower },
+  { key: 'fuelEconomyCity', group: 'performance', label: 'City fuel economy', unit: 'mpg', better: 'higher', value: car => car.enginePerformance?.fuelEconomy?.city },
+  { key: 'fuelEconomyHighway', group: 'performance', label: 'Highway fuel economy', unit: 'mpg', better: 'higher', value: car => car.enginePerformance?.fuelEconomy?.highway },
+  { key: 'fuelEconomyCombined', group: 'performance', label: 'Combined fuel economy', unit: 'mpg', better: 'higher', value: (_car, derived) => derived.combinedMpg },
+
+  { key: 'seating', group: 'details', label: 'Seats', better: 'higher', value: car => car.vehicleDetails?.seating },
+  { key: 'doors', group: 'details', label: 'Doors', value: car => car.vehicleDetails?.doors },
+  { key: 'exteriorColor', group: 'details', label: 'Exterior color', value: car => car.vehicleDetails?.exteriorColor ?? car.exteriorColor },
+  { key: 'interiorColor', group: 'details', label: 'Interior color', value: car => car.vehicleDetails?.interiorColor },
+
+  { key: 'warrantyType', group: 'warranty', label: 'Warranty', value: car => car.warrantyProtection?.warranty?.type },
+  { key: 'warrantyRemaining', group: 'warranty', label: 'Warranty remaining', value: car => car.warrantyProtection?.warranty?.remaining },
+  { key: 'warrantyTransferable', group: 'warranty', label: 'Transferable warranty', better: 'higher', value: car => car.warrantyProtection?.warranty?.transferable },
+  { key: 'gapInsurance', group: 'warranty', label: 'GAP insurance', better: 'higher', value: car => car.warrantyProtection?.protection?.gapInsurance },
+  { key: 'serviceContract', group: 'warranty', label: 'Service contract', better: 'higher', value: car => car.warrantyProtection?.protection?.serviceContract },
+  { key: 'roadside', group: 'warranty', label: 'Roadside assistance', better: 'higher', value: car => car.warrantyProtection?.protection?.roadside },
+
+  { key: 'financingAvailable', group: 'financing', label: 'Financing available', better: 'higher', value: car => car.financing?.available },
+  { key: 'apr', group: 'financing', label: 'APR', unit: '%', better: 'lower', value: car => car.financing?.available ? car.financing.apr : null },
+  { key: 'monthlyPayment', group: 'financing', label: 'Monthly payment', unit: 'USD', better: 'lower', value: car => car.financing?.available ? car.financing.monthlyPayment : null },
+  { key: 'downPayment', group: 'financing', label: 'Down payment', unit: 'USD', better: 'lower', value: car => car.financing?.available ? car.financing.downPayment : null },
+  { key: 'term', group: 'financing', label: 'Term', unit: 'months', value: car => car.financing?.available ? car.financing.term : null },
+
+  { key: 'previousOwners', group: 'history', label: 'Previous owners', better: 'lower', value: car => car.ownershipHistory?.previousOwners },
+  { key: 'titleStatus', group: 'history', label: 'Title status', value: car => car.ownershipHistory?.titleStatus },
+  { key: 'ownershipType', group: 'history', label: 'Previous use', value: car => car.ownershipHistory?.ownershipType },
+  { key: 'titleRiskScore', group: 'history', label: 'Title risk score', better: 'lower', value: (_car, derived) => derived.titleRiskScore },
+  { key: 'accidentScore', group: 'history', label: 'Accident score', better: 'lower', value: (_car, derived) => derived.accidentScore },
+  { key: 'serviceRecords', group: 'history', label: 'Service records', better: 'higher', value: (_car, derived) => derived.serviceRecordCount },
+
+  { key: 'costPerMile', group: 'ownershipCost', label: 'Fuel cost per mile', unit: 'USD/mi', better: 'lower', value: (_car, derived) => derived.costPerMile },
+  { key: 'annualFuelCost', group: 'ownershipCost', label: 'Fuel cost per year', unit: 'USD', better: 'lower', value: (_car, derived) => derived.annualEnergyCost },
+  { key: 'fuelCostOverPeriod', group: 'ownershipCost', label: 'Fuel cost over the period', unit: 'USD', better: 'lower', value: (_car, derived) => derived.energyCostOverPeriod },
+  { key: 'totalCostOfOwnership', group: 'ownershipCost', label: 'Price plus fuel over the period', unit: 'USD', better: 'lower', value: (_car, derived) => derived.totalCostOfOwnership }
+];
+
+// Combined MPG (MPGe for electric cars), estimated from city and highway when missing
+const combinedMpg = (car: any): number | null => {
+  const economy = car.enginePerformance?.fuelEconomy;
+  if (economy?.combined) return economy.combined;
+  if (economy?.city && economy?.highway) return Math.round((economy.city + economy.highway) / 2);
+  return economy?.city || economy?.highway || null;
+};
+
+function deriveValues(car: any, assumptions: OwnershipAssumptions): DerivedValues {
+  const horsepower = car.enginePerformance?.horsepower;
+  const mpg = combinedMpg(car);
+  const costPerMile = mpg
+    ? car.fuelType === 'electric'
+      ? assumptions.electricityPrice * KWH_PER_GALLON_EQUIVALENT / mpg
+      : assumptions.fuelPrice / mpg
+    : null;
+  const annualEnergyCost = costPerMile != null ? roundMoney(costPerMile * assumptions.annualMiles) : null;
+  const energyCostOverPeriod = annualEnergyCost != null ? roundMoney(annualEnergyCost * assumptions.years) : null;
+  const history = buildHistoryReport(car);
+
+  return {
+    pricePerHorsepower: horsepower ? roundMoney(car.price / horsepower) : null,
+    combinedMpg: mpg,
+    costPerMile: costPerMile != null ? Math.round(costPerMile * 1000) / 1000 : null,
+    annualEnergyCost,
+    energyCostOverPeriod,
+    totalCostOfOwnership: energyCostOverPeriod != null ? roundMoney(car.price + energyCostOverPeriod) : null,
+    accidentScore: history.accidents.score,
+    titleRiskScore: history.title.score,
+    serviceRecordCount: history.maintenance.recordCount
+  };
+}
+
+// Ids of the cars holding the best value. Needs at least two values that differ.
+function findBest(carIds: string[], values: FieldValue[], better?: 'higher' | 'lower') {
+  if (!better) return [];
+
+  const numeric = values.map(value => typeof value === 'boolean' ? Number(value) : value);
+  const comparable = numeric.filter((value): value is number => typeof value === 'number');
+  if (comparable.length < 2 || comparable.every(value => value === comparable[0])) return [];
+
+  const target = better === 'higher' ? Math.max(...comparable) : Math.min(...comparable);
+  return carIds.filter((_id, index) => numeric[index] === target);
+}
+
+// Side-by-side view of 2-4 cars; pure apart from reading the cars passed in
+export function compareCars(cars: any[], assumptions: OwnershipAssumptions) {
+  const carIds = cars.map(car => car._id.toString());
+  const derived = cars.map(car => deriveValues(car, assumptions));
+  const wins: Record<string, number> = Object.fromEntries(carIds.map(id => [id, 0]));
+
+  const fields = FIELDS.map(field => {
+    const values = cars.map((car, index) => field.value(car, derived[index]) ?? null);
+    const best = findBest(carIds, values, field.better);
+    best.forEach(id => { wins[id] += 1; });
+
+    return {
+      key: field.key,
+      group: field.group,
+      label: field.label,
+      unit: field.unit ?? null,
+      better: field.better ?? null,
+      values,
+      best
+    };
+  });
+
+  const bestOf = (key: string) => fields.find(field => field.key === key)?.best ?? [];
+
+  return {
+    cars: cars.map(car => ({
+      id: car._id.toString(),
+      make: car.make,
+      model: car.model,
+      year: car.year,
+      price: car.price,
+      status: car.status,
+      image: car.images?.find((image: any) => image.isPrimary)?.url ?? car.images?.[0]?.url ?? null
+    })),
+    fields,
+    summary: {
+      wins,
+      lowestTotalCostOfOwnership: bestOf('totalCostOfOwnership'),
+      lowestPricePerHorsepower: bestOf('pricePerHorsepower')
+    },
+    assumptions
+  };
+}
+
+const newShortId = () => randomBytes(6).toString('base64url');
+
+export class ComparisonService {
+  // Compare cars without saving anything; share() gives the comparison a link
+  static async compare(carIds: string[], assumptions: OwnershipAssumptions) {
+    const { cars } = await this.loadCars(carIds, true);
+    return {
+      comparisonId: null,
+      ...compareCars(cars, assumptions),
+      unavailable: [],
+      createdAt: null
+    };
+  }
+
+  // Save the comparison and return it with its share id; the same set of cars
+  // always gets the same id
+  static async share(carIds: string[], assumptions: OwnershipAssumptions) {
+    await this.loadCars(carIds, true);
+    const comparison = await this.findOrCreate(carIds);
+    return this.build(comparison, assumptions);
+  }
+
+  static async getShared(shortId: string, assumptions: OwnershipAssumptions) {
+    const comparison = await Comparison.findOneAndUpdate(
+      { shortId },
+      { $inc: { views: 1 }, $set: { lastViewedAt: new Date() } },
+      { new: true }
+    );
+    if (!comparison) {
+      throw new NotFoundError('Comparison not found');
+    }
+    return this.build(comparison, assumptions);
+  }
+
+  // Cars in the order given, leaving out removed ones unless they must all exist
+  private static async loadCars(carIds: any[], requireAll = false) {
+    const found = await Car.find({ _id: { $in: carIds }, status: { $ne: 'removed' } }).lean();
+    const ids = carIds.map(id => id.toString());
+    const cars = ids
+      .map(id => found.find(car => car._id.toString() === id))
+      .filter(Boolean);
+    const unavailable = ids.filter(id => !found.some(car => car._id.toString() === id));
+
+    if (requireAll && unavailable.length) {
+      throw new NotFoundError('Car not found', { ids: unavailable });
+    }
+    return { cars, unavailable };
+  }
+
+  private static async findOrCreate(carIds: string[]) {
+    const carsKey = [...carIds].sort().join(',');
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await Comparison.findOneAndUpdate(
+          { carsKey },
+          { $setOnInsert: { shortId: newShortId(), cars: carIds } },
+          { upsert: true, new: true }
+        );
+      } catch (error: any) {
+        // A concurrent request created it first, or the short id collided
+        if (error.code !== 11000 || attempt === 3) throw error;
+      }
+    }
+  }
+
+  // Cars deleted or taken down since the comparison was shared are listed as unavailable
+  private static async build(comparison: any, assumptions: OwnershipAssumptions) {
+    const { cars, unavailable } = await this.loadCars(comparison.cars);
+
+    return {
+      comparisonId: comparison.shortId,
+      ...compareCars(cars, assumptions),
+      unavailable,
+      createdAt: comparison.createdAt
+    };
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Auto loan calculator.
+ *
+ * Pure functions only, so a quote can be recomputed exactly from its inputs.
+ * Taxes, registration and dealer fees are not included.
+ */
+
+import { roundMoney } from './rentalPricing';
+
+export interface LoanInput {
+  price: number;
+  downPayment: number;
+  tradeInValue?: number;
+  // Still owed on the trade-in; anything above its value is rolled into the loan
+  tradeInPayoff?: number;
+  apr: number;
+  termMonths: number;
+}
+
+export interface AmortizationRow {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface LoanQuote {
+  price: number;
+  downPayment: number;
+  tradeInValue: number;
+  tradeInPayoff: number;
+  tradeInEquity: number;
+  amountFinanced: number;
+  apr: number;
+  termMonths: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  totalOfPayments: number;
+  // Down payment, trade-in equity and every loan payment
+  totalCost: number;
+  schedule: AmortizationRow[];
+}
+
+export const calculateAmountFinanced = (input: LoanInput) => {
+  const tradeInEquity = (input.tradeInValue || 0) - (input.tradeInPayoff || 0);
+  return roundMoney(input.price - input.downPayment - tradeInEquity);
+};
+
+// Level payment for a fully amortizing loan; APR in percent
+export function calculateMonthlyPayment(principal: number, apr: number, termMonths: number) {
+  const monthlyRate = apr / 100 / 12;
+  if (monthlyRate === 0) {
+    return roundMoney(principal / termMonths);
+  }
+  return roundMoney(principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths)));
+}
+
+// Month-by-month schedule. Payments are rounded to the cent, so the last one
+// absorbs the rounding difference and brings the balance to exactly zero.
+export function buildAmortizationSchedule(principal: number, apr: number, termMonths: number): AmortizationRow[] {
+  const monthlyRate = apr / 100 / 12;
+  const payment = calculateMonthlyPayment(principal, apr, termMonths);
+  const schedule: AmortizationRow[] = [];
+  let balance = principal;
+
+  for (let month = 1; month <= termMonths; month++) {
+    const interest = roundMoney(balance * monthlyRate);
+    const principalPaid = month === termMonths ? balance : Math.min(balance, roundMoney(payment - interest));
+    balance = roundMoney(balance - principalPaid);
+    schedule.push({
+      month,
+      payment: roundMoney(principalPaid + interest),
+      principal: roundMoney(principalPaid),
+      interest,
+      balance
+    });
+  }
+  return schedule;
+}
+
+export function calculateLoan(input: LoanInput): LoanQuote {
+  const tradeInValue = input.tradeInValue || 0;
+  const tradeInPayoff = input.tradeInPayoff || 0;
+  const amountFinanced = calculateAmountFinanced(input);
+  const schedule = buildAmortizationSchedule(amountFinanced, input.apr, input.termMonths);
+
+  const totalInterest = roundMoney(schedule.reduce((sum, row) => sum + row.interest, 0));
+  const totalOfPayments = roundMoney(schedule.reduce((sum, row) => sum + row.payment, 0));
+
+  return {
+    price: input.price,
+    downPayment: input.downPayment,
+    tradeInValue,
+    tradeInPayoff,
+    tradeInEquity: roundMoney(tradeInValue - tradeInPayoff),
+    amountFinanced,
+    apr: input.apr,
+    termMonths: input.termMonths,
+    monthlyPayment: calculateMonthlyPayment(amountFinanced, input.apr, input.termMonths),
+    totalInterest,
+    totalOfPayments,
+    totalCost: roundMoney(input.downPayment + tradeInValue - tradeInPayoff + totalOfPayments),
+    schedule
+  };
+}
@@ -0,0 +1,303 @@
+import { z } from 'zod';
+import Car, { CREDIT_TIERS } from '../models/Car';
+import FinanceLead, { EMPLOYMENT_STATUSES, FINANCE_LEAD_STATUSES, OPEN_LEAD_STATUSES } from '../models/FinanceLead';
+import { InboxService } from './inboxService';
+import { calculateLoan, calculateMonthlyPayment } from './financeCalculator';
+import { roundMoney } from './rentalPricing';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/httpErrors';
+
+// Monthly debt, including the new car payment, as a share of gross monthly income
+const MAX_DEBT_TO_INCOME = Number(process.env.FINANCE_MAX_DEBT_TO_INCOME) || 0.45;
+
+const MAX_TERM_MONTHS = 96;
+
+const financingOfferSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  lender: z.string().trim().max(100).optional(),
+  apr: z.coerce.number().min(0).max(40),
+  termMonths: z.coerce.number().int().min(6).max(MAX_TERM_MONTHS),
+  minDownPaymentPercent: z.coerce.number().min(0).max(100).optional(),
+  minCreditTier: z.enum(CREDIT_TIERS).optional(),
+  validUntil: z.coerce.date().optional(),
+  active: z.boolean().optional()
+});
+
+// The offer list is replaced as a whole
+export const financingSettingsSchema = z.object({
+  available: z.boolean(),
+  offers: z.array(financingOfferSchema).max(10).default([])
+});
+
+const loanTermsSchema = z.object({
+  offerId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid offer id').optional(),
+  apr: z.coerce.number().min(0).max(40).optional(),
+  termMonths: z.coerce.number().int().min(6).max(MAX_TERM_MONTHS).optional(),
+  downPayment: z.coerce.number().min(0).default(0),
+  tradeInValue: z.coerce.number().min(0).optional(),
+  tradeInPayoff: z.coerce.number().min(0).optional()
+});
+
+// Either a vendor offer or the buyer's own rate and term
+const withLoanTerms = <T extends z.ZodTypeAny>(schema: T) => schema.refine(
+  (data: any) => data.offerId || (data.apr != null && data.termMonths != null),
+  { message: 'Provide an offerId, or both apr and termMonths', path: ['offerId'] }
+);
+
+export const financeQuoteSchema = withLoanTerms(loanTermsSchema);
+
+export const prequalificationSchema = withLoanTerms(loanTermsSchema.extend({
+  applicant: z.object({
+    name: z.string().trim().min(1).max(100),
+    email: z.string().trim().email(),
+    phone: z.string().trim().max(30).optional()
+  }),
+  employmentStatus: z.enum(EMPLOYMENT_STATUSES),
+  annualIncome: z.coerce.number().positive(),
+  monthlyDebtPayments: z.coerce.number().min(0).default(0),
+  creditTier: z.enum(CREDIT_TIERS),
+  message: z.string().trim().max(1000).optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: 'Consent to be contacted is required' }) })
+}));
+
+export const financeLeadStatusSchema = z.object({
+  status: z.enum(FINANCE_LEAD_STATUSES),
+  note: z.string().trim().max(1000).optional()
+});
+
+type LoanTerms = z.infer<typeof loanTermsSchema>;
+
+const isCurrentOffer = (offer: any, now = new Date()) =>
+  offer.active !== false && (!offer.validUntil || new Date(offer.validUntil) >= now);
+
+// Lower index is a better tier
+const meetsCreditTier = (tier: string, minimum?: string) =>
+  !minimum || CREDIT_TIERS.indexOf(tier as any) <= CREDIT_TIERS.indexOf(minimum as any);
+
+const offerSummary = (offer: any) => ({
+  offerId: offer._id,
+  name: offer.name,
+  lender: offer.lender
+});
+
+export class FinanceService {
+  // Refresh the advertised terms from the offers; listings without offers keep theirs
+  static applyHeadlineTerms(car: any, now = new Date()) {
+    const offers = car.financing?.offers || [];
+    if (!offers.length) return;
+
+    const best = offers
+      .filter((offer: any) => isCurrentOffer(offer, now))
+      .sort((a: any, b: any) => a.apr - b.apr || a.termMonths - b.termMonths)[0];
+
+    if (!best) {
+      car.set({
+        'financing.apr': undefined,
+        'financing.term': undefined,
+        'financing.downPayment': undefined,
+        'financing.monthlyPayment': undefined
+      });
+      return;
+    }
+
+    const downPayment = roundMoney(car.price * (best.minDownPaymentPercent || 0) / 100);
+    car.set({
+      'financing.apr': best.apr,
+      'financing.term': best.termMonths,
+      'financing.downPayment': downPayment,
+      'financing.monthlyPayment': calculateMonthlyPayment(car.price - downPayment, best.apr, best.termMonths)
+    });
+  }
+
+  private static async findListedCar(carId: string) {
+    const car = await Car.findById(carId).select('seller status price make model year financing').lean();
+    if (!car || car.status !== 'active') {
+      throw new NotFoundError('Car not found');
+    }
+    return car;
+  }
+
+  static async getFinancing(carId: string) {
+    const car = await this.findListedCar(carId);
+    const financing: any = car.financing || {};
+    const available = !!financing.available;
+
+    return {
+      carId: car._id,
+      price: car.price,
+      available,
+      apr: available ? financing.apr : undefined,
+      term: available ? financing.term : undefined,
+      downPayment: available ? financing.downPayment : undefined,
+      monthlyPayment: available ? financing.monthlyPayment : undefined,
+      offers: available ? (financing.offers || []).filter((offer: any) => isCurrentOffer(offer)) : []
+    };
+  }
+
+  static async updateFinancing(userId: string, carId: string, data: z.infer<typeof financingSettingsSchema>) {
+    const car = await Car.findById(carId);
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.seller.toString() !== userId) {
+      throw new ForbiddenError('Not authorized');
+    }
+
+    car.set('financing.available', data.available);
+    car.set('financing.offers', data.offers);
+    this.applyHeadlineTerms(car);
+    await car.save();
+
+    return car.financing;
+  }
+
+  // Price the loan against a vendor offer or the buyer's own rate and term
+  private static priceLoan(car: any, terms: LoanTerms) {
+    let offer: any = null;
+    let apr = terms.apr!;
+    let termMonths = terms.termMonths!;
+
+    if (terms.offerId) {
+      offer = (car.financing?.offers || []).find((item: any) => item._id.toString() === terms.offerId);
+      if (!car.financing?.available || !offer || !isCurrentOffer(offer)) {
+        throw new NotFoundError('Financing offer not found');
+      }
+      const minDownPayment = roundMoney(car.price * (offer.minDownPaymentPercent || 0) / 100);
+      if (terms.downPayment < minDownPayment) {
+        throw new BadRequestError(`This offer requires a down payment of at least ${minDownPayment}`, {
+          minDownPayment
+        });
+      }
+      apr = offer.apr;
+      termMonths = offer.termMonths;
+    }
+
+    const quote = calculateLoan({
+      price: car.price,
+      downPayment: terms.downPayment,
+      tradeInValue: terms.tradeInValue,
+      tradeInPayoff: terms.tradeInPayoff,
+      apr,
+      termMonths
+    });
+    if (quote.amountFinanced <= 0) {
+      throw new BadRequestError('Down payment and trade-in cover the full price; there is nothing to finance');
+    }
+
+    return { offer, quote };
+  }
+
+  static async quote(carId: string, terms: LoanTerms) {
+    const car = await this.findListedCar(carId);
+    const { offer, quote } = this.priceLoan(car, terms);
+
+    return { carId: car._id, offer: offer ? offerSummary(offer) : null, quote };
+  }
+
+  // Soft pre-qualification: no credit pull, just affordability checks for the vendor's follow-up
+  static async prequalify(buyer: any, carId: string, data: z.infer<typeof prequalificationSchema>) {
+    const car = await this.findListedCar(carId);
+    if (car.seller.toString() === buyer.id) {
+      throw new BadRequestError("You can't apply for financing on your own listing");
+    }
+
+    const { offer, quote } = this.priceLoan(car, data);
+
+    const monthlyIncome = data.annualIncome / 12;
+    const debtToIncome = Math.round((data.monthlyDebtPayments + quote.monthlyPayment) / monthlyIncome * 1000) / 1000;
+
+    const reasons: string[] = [];
+    if (debtToIncome > MAX_DEBT_TO_INCOME) {
+      reasons.push(`Debt-to-income ratio of ${Math.round(debtToIncome * 100)}% is above ${Math.round(MAX_DEBT_TO_INCOME * 100)}%`);
+    }
+    if (data.creditTier === 'poor') {
+      reasons.push('Credit tier needs a lender review');
+    } else if (offer && !meetsCreditTier(data.creditTier, offer.minCreditTier)) {
+      reasons.push(`Offer requires ${offer.minCreditTier} credit or better`);
+    }
+    if (data.employmentStatus === 'unemployed') {
+      reasons.push('No employment income');
+    }
+
+    const { schedule, ...quoteSummary } = quote;
+    const submission = {
+      vendor: car.seller,
+      applicant: data.applicant,
+      employmentStatus: data.employmentStatus,
+      annualIncome: data.annualIncome,
+      monthlyDebtPayments: data.monthlyDebtPayments,
+      creditTier: data.creditTier,
+      offer: offer ? offerSummary(offer) : undefined,
+      quote: quoteSummary,
+      debtToIncome,
+      result: reasons.length ? 'needs-review' : 'prequalified',
+      reasons,
+      message: data.message
+    };
+
+    const existing = await FinanceLead.findOne({ car: car._id, buyer: buyer.id, status: { $in: OPEN_LEAD_STATUSES } });
+    let lead;
+    if (existing) {
+      existing.set(submission);
+      if (!submission.offer) existing.set('offer', undefined);
+      lead = await existing.save();
+    } else {
+      lead = await FinanceLead.create({ ...submission, car: car._id, buyer: buyer.id });
+    }
+
+    await InboxService.deliver(car.seller.toString(), 'financeLead', {
+      type: 'financeLead',
+      leadId: lead._id,
+      carId: car._id,
+      car: { make: car.make, model: car.model, year: car.year },
+      result: lead.result,
+      message: `${data.applicant.name} ${existing ? 'updated their' : 'submitted a'} financing pre-qualification for your ${car.year} ${car.make} ${car.model}`,
+      timestamp: new Date(),
+      priority: lead.result === 'prequalified' ? 'high' : 'medium'
+    });
+
+    return { lead, quote, updated: !!existing };
+  }
+
+  static async getVendorLeads(vendorId: string, options: any = {}) {
+    const { page = 1, limit = 20, status, result, carId } = options;
+    const filter: any = { vendor: vendorId };
+    if (status) filter.status = status;
+    if (result) filter.result = result;
+    if (carId) filter.car = carId;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [leads, total] = await Promise.all([
+      FinanceLead.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate('car', 'make model year price images status')
+        .populate('buyer', 'name email phone')
+        .lean(),
+      FinanceLead.countDocuments(filter)
+    ]);
+
+    return {
+      leads,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  }
+
+  static async updateLeadStatus(vendorId: string, leadId: string, data: z.infer<typeof financeLeadStatusSchema>) {
+    const lead = await FinanceLead.findOneAndUpdate(
+      { _id: leadId, vendor: vendorId },
+      { $set: { status: data.status, statusNote: data.note } },
+      { new: true, runValidators: true }
+    ).lean();
+    if (!lead) {
+      throw new NotFoundError('Finance lead not found');
+    }
+    return lead;
+  }
+}
@@ -0,0 +1,102 @@
+import PDFDocument from 'pdfkit';
+import { HistoryReport } from './vehicleHistoryService';
+
+const formatDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toISOString().slice(0, 10) : '-';
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatNumber = (value: number | null | undefined, unit = '') =>
+  value == null ? '-' : `${value.toLocaleString('en-US')}${unit}`;
+
+const label = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/-/g, ' ');
+
+// Render a history report as a printable PDF
+export function renderHistoryReportPdf(report: HistoryReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: 'Vehicle history report' } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const heading = (text: string) => {
+      doc.moveDown().font('Helvetica-Bold').fontSize(13).text(text).moveDown(0.3);
+      doc.font('Helvetica').fontSize(10);
+    };
+    const row = (name: string, value: string) => {
+      doc.font('Helvetica-Bold').text(`${name}: `, { continued: true }).font('Helvetica').text(value);
+    };
+
+    const { vehicle, maintenance, costs, accidents, title } = report;
+
+    doc.font('Helvetica-Bold').fontSize(18).text('Vehicle History Report');
+    doc.font('Helvetica').fontSize(10).fillColor('#555555')
+      .text(`Generated ${formatDate(report.generatedAt)}`)
+      .fillColor('#000000');
+
+    heading(`${vehicle.year} ${vehicle.make} ${vehicle.model}`);
+    row('VIN', vehicle.vin || 'Not provided');
+    row('Odometer', formatNumber(vehicle.mileage, ' mi'));
+
+    heading('Maintenance');
+    row('Rating', label(maintenance.rating));
+    row('Service visits', String(maintenance.recordCount));
+    row('Last service', `${formatDate(maintenance.lastServiceDate)} at ${formatNumber(maintenance.lastServiceMileage, ' mi')}`);
+    row('Average interval', `${formatNumber(maintenance.averageIntervalDays, ' days')} / ${formatNumber(maintenance.averageIntervalMiles, ' mi')}`);
+    row('Overdue', maintenance.overdue ? 'Yes' : 'No');
+
+    heading('Costs');
+    row('Service and maintenance', formatMoney(costs.serviceCost));
+    row('Accident repairs', formatMoney(costs.accidentRepairCost));
+    row('Total', formatMoney(costs.totalRepairCost));
+
+    heading('Accidents');
+    row('Accident score', `${accidents.score}/100 (${label(accidents.level)})`);
+    row('Reported accidents', `${accidents.count} (${accidents.bySeverity.minor} minor, ${accidents.bySeverity.moderate} moderate, ${accidents.bySeverity.major} major)`);
+    row('Insurance claims', String(accidents.insuranceClaims));
+
+    heading('Title');
+    row('Title risk', `${title.score}/100 (${label(title.level)})`);
+    row('Title status', label(title.titleStatus));
+    row('Previous owners', String(title.previousOwners));
+    if (title.ownershipType) row('Ownership type', label(title.ownershipType));
+    title.factors.forEach(factor => doc.text(`- ${label(factor)}`));
+
+    if (report.serviceRecords.length) {
+      heading('Service records');
+      report.serviceRecords.forEach(record => {
+        const details = [
+          formatDate(record.date),
+          label(record.serviceType || 'other'),
+          formatNumber(record.mileage, ' mi'),
+          record.cost != null ? formatMoney(record.cost) : null,
+          record.serviceProvider
+        ].filter(Boolean).join('  |  ');
+        doc.text(details);
+        if (record.description) doc.fillColor('#555555').text(record.description, { indent: 12 }).fillColor('#000000');
+      });
+    }
+
+    if (report.accidentRecords.length) {
+      heading('Accident records');
+      report.accidentRecords.forEach(record => {
+        const details = [
+          formatDate(record.date),
+          label(record.severity || 'minor'),
+          record.damageAreas?.length ? record.damageAreas.map(label).join(', ') : null,
+          record.repairCost != null ? formatMoney(record.repairCost) : null,
+          record.insuranceClaim ? 'Insurance claim' : null
+        ].filter(Boolean).join('  |  ');
+        doc.text(details);
+        if (record.description) doc.fillColor('#555555').text(record.description, { indent: 12 }).fillColor('#000000');
+      });
+    }
+
+    doc.moveDown(2).fontSize(8).fillColor('#777777')
+      .text('Based on records entered by the seller. It is not a substitute for an independent inspection or title search.');
+
+    doc.end();
+  });
+}
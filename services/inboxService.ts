@@ -0,0 +1,94 @@
+import Notification from '../models/Notification';
+import { emitToUser } from '../socket';
+import { NotificationPreferenceService } from './notificationPreferenceService';
+
+export class InboxService {
+  // Store a user-targeted event in the inbox, then push it live
+  static async deliver(userId: string, event: string, payload: any) {
+    const preferences = await NotificationPreferenceService.getPreferences(userId);
+    if (!NotificationPreferenceService.isEventEnabled(preferences, event)) return null;
+
+    const notification = await Notification.create({
+      user: userId,
+      type: event,
+      priority: ['low', 'medium', 'high'].includes(payload.priority) ? payload.priority : 'medium',
+      message: payload.message || '',
+      data: payload
+    });
+
+    // During quiet hours the notification waits in the inbox instead
+    if (!NotificationPreferenceService.isQuietTime(preferences)) {
+      emitToUser(userId, event, {
+        ...payload,
+        notificationId: notification._id
+      });
+    }
+
+    return notification;
+  }
+
+  static async getNotifications(userId: string, options: any = {}) {
+    const {
+      page = 1,
+      limit = 20,
+      unreadOnly,
+      since,
+      type
+    } = options;
+
+    const filter: any = { user: userId };
+    if (unreadOnly === 'true') filter.read = false;
+    if (type) filter.type = type;
+    if (since) {
+      const sinceDate = new Date(since);
+      if (!isNaN(sinceDate.getTime())) filter.createdAt = { $gt: sinceDate };
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [notifications, total, unread] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean(),
+      Notification.countDocuments(filter),
+      this.getUnreadCount(userId)
+    ]);
+
+    return {
+      notifications,
+      unread,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    };
+  }
+
+  static async getUnreadCount(userId: string) {
+    return Notification.countDocuments({ user: userId, read: false });
+  }
+
+  static async markRead(userId: string, notificationId: string) {
+    return Notification.findOneAndUpdate(
+      { _id: notificationId, user: userId },
+      { read: true, readAt: new Date() },
+      { new: true }
+    ).lean();
+  }
+
+  static async markAllRead(userId: string) {
+    const result = await Notification.updateMany(
+      { user: userId, read: false },
+      { read: true, readAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  static async deleteNotification(userId: string, notificationId: string) {
+    return Notification.findOneAndDelete({ _id: notificationId, user: userId }).lean();
+  }
+}
@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import Booking from '../models/Booking';
+import Car, { DAMAGE_AREAS, DAMAGE_SEVERITIES } from '../models/Car';
+import Inspection, { IDamageItem } from '../models/Inspection';
+import { RentalPricingService } from './rentalPricingService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/httpErrors';
+import { calculateFuelCharge, calculateMileageCharge, roundMoney } from './rentalPricing';
+
+// Photo URLs come from POST /api/upload/images
+const photoUrlsSchema = z.array(z.string().url()).max(20).default([]);
+
+const damageItemSchema = z.object({
+  area: z.enum(DAMAGE_AREAS),
+  severity: z.enum(DAMAGE_SEVERITIES),
+  description: z.string().trim().max(500).optional(),
+  photos: photoUrlsSchema
+});
+
+export const inspectionCreateSchema = z.object({
+  odometer: z.number().int().min(0),
+  fuelLevel: z.number().int().min(0).max(8),
+  damage: z.array(damageItemSchema).max(20).default([]),
+  photos: photoUrlsSchema,
+  notes: z.string().trim().max(2000).optional()
+});
+
+type InspectionInput = z.infer<typeof inspectionCreateSchema>;
+
+const severityRank = (severity: string) => DAMAGE_SEVERITIES.indexOf(severity as any);
+
+type DamageLike = Partial<Pick<IDamageItem, 'area' | 'severity' | 'description'>>;
+
+// Damage on return that is in a new area, or worse than what was recorded at pickup
+export const findNewDamage = <T extends DamageLike>(checkout: DamageLike[], checkin: T[]) =>
+  checkin.filter(item => !checkout.some(previous =>
+    previous.area === item.area && severityRank(previous.severity) >= severityRank(item.severity)
+  ));
+
+export class InspectionService {
+  // Inspections are recorded by the vendor's counter staff
+  private static async findVendorBooking(user: any, bookingId: string) {
+    const booking = await Booking.findById(bookingId);
+    if (!booking || booking.vendor.toString() !== user.id) {
+      throw new NotFoundError('Booking not found');
+    }
+    return booking;
+  }
+
+  private static async createInspection(fields: Record<string, any>) {
+    try {
+      return await Inspection.create(fields);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new ConflictError(`This booking already has a ${fields.type} inspection`);
+      }
+      throw error;
+    }
+  }
+
+  // Hand the car to the renter: record its condition and start the rental
+  static async checkOut(user: any, bookingId: string, data: InspectionInput) {
+    const booking = await this.findVendorBooking(user, bookingId);
+    if (booking.status !== 'confirmed') {
+      throw new BadRequestError(`Cannot check out a ${booking.status} booking`);
+    }
+
+    const inspection = await this.createInspection({
+      ...data,
+      booking: booking._id,
+      car: booking.car,
+      type: 'checkout',
+      inspector: user.id
+    });
+
+    await Booking.updateOne(
+      { _id: booking._id, status: 'confirmed' },
+      { $set: { status: 'active', checkedOutAt: new Date() } }
+    );
+
+    return inspection;
+  }
+
+  // Take the car back: compute extra charges, flag new damage and close the booking
+  static async checkIn(user: any, bookingId: string, data: InspectionInput) {
+    const booking = await this.findVendorBooking(user, bookingId);
+    if (booking.status !== 'active') {
+      throw new BadRequestError(`Cannot check in a ${booking.status} booking`);
+    }
+
+    const checkout = await Inspection.findOne({ booking: booking._id, type: 'checkout' }).lean();
+    if (!checkout) {
+      throw new BadRequestError('Booking has no check-out inspection');
+    }
+    if (data.odometer < checkout.odometer) {
+      throw new BadRequestError(`Odometer is below the check-out reading of ${checkout.odometer}`);
+    }
+
+    const rules = await RentalPricingService.getRules(booking.vendor.toString());
+    const milesDriven = data.odometer - checkout.odometer;
+    const mileage = calculateMileageCharge(rules, booking.days, milesDriven);
+    const fuel = calculateFuelCharge(rules, checkout.fuelLevel, data.fuelLevel);
+    const newDamage = findNewDamage(checkout.damage, data.damage);
+
+    const charges = {
+      milesDriven,
+      includedMiles: mileage.included,
+      extraMiles: mileage.overageMiles,
+      mileageCharge: mileage.overageCharge,
+      fuelShortfall: fuel.shortfall,
+      fuelCharge: fuel.charge,
+      total: roundMoney(mileage.overageCharge + fuel.charge)
+    };
+
+    const inspection = await this.createInspection({
+      ...data,
+      booking: booking._id,
+      car: booking.car,
+      type: 'checkin',
+      inspector: user.id,
+      newDamage,
+      charges
+    });
+
+    await Booking.updateOne(
+      { _id: booking._id, status: 'active' },
+      { $set: { status: 'completed', checkedInAt: new Date(), extraCharges: charges.total } }
+    );
+
+    await this.updateCarHistory(booking.car, inspection.odometer, newDamage);
+
+    return inspection;
+  }
+
+  // Raise the car's mileage to the return reading and record new damage as an accident.
+  // The inspection itself stays in the Inspection collection, not the service history.
+  private static async updateCarHistory(carId: any, odometer: number, newDamage: DamageLike[]) {
+    // Odometers only go up; never lower a listing's mileage
+    const update: any = { $max: { mileage: odometer } };
+
+    if (newDamage.length > 0) {
+      const worst = newDamage.reduce((a, b) => severityRank(b.severity) > severityRank(a.severity) ? b : a);
+      update.$push = {
+        'ownershipHistory.accidentRecords': {
+          date: new Date(),
+          severity: worst.severity,
+          description: newDamage
+            .map(item => item.description ? `${item.area}: ${item.description}` : item.area)
+            .join('; '),
+          damageAreas: [...new Set(newDamage.map(item => item.area))],
+          insuranceClaim: false
+        }
+      };
+    }
+
+    await Car.updateOne({ _id: carId }, update);
+  }
+
+  static async getInspections(bookingId: string) {
+    return Inspection.find({ booking: bookingId })
+      .sort({ createdAt: 1 })
+      .populate('inspector', 'name')
+      .lean();
+  }
+}
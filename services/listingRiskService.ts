@@ -0,0 +1,222 @@
+import Car from '../models/Car';
+import { SearchService } from './searchService';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskReason {
+  code: string;
+  message: string;
+  points: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  assessedAt: Date;
+}
+
+// An admin's decision that the listing is fine at this score and for these reasons
+interface RiskClearance {
+  clearedBy?: any;
+  clearedAt: Date;
+  clearedScore: number;
+  clearedReasons: string[];
+}
+
+// Scores at or above these levels; high-risk listings go to the moderation queue
+const MEDIUM_RISK_SCORE = 30;
+const HIGH_RISK_SCORE = 60;
+
+// Fewer comparable listings than this and the market average means little
+const MIN_COMPARABLES = 3;
+const MAX_MILES_PER_YEAR = 40000;
+const MIN_MILES_PER_YEAR = 1000;
+// Short descriptions ("Great car, runs well") are legitimately repeated
+const MIN_DUPLICATE_DESCRIPTION_LENGTH = 50;
+
+const CONTACT_PATTERNS = [
+  /[\w.+-]+@[\w-]+\.[\w.]+/,
+  /(?<!\d)(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/,
+  /(?:https?:\/\/|www\.)\S+/i,
+  /\b(?:whats\s?app|telegram|wechat|viber)\b/i
+];
+
+const formatPrice = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+export class ListingRiskService {
+  // Score a car document (saved or not) from 0 to 100 with the reasons behind it
+  static async assess(car: any): Promise<RiskAssessment> {
+    const reasons = [
+      ...(await this.checkPrice(car)),
+      ...this.checkMileage(car),
+      ...this.checkContactDetails(car.description),
+      ...(await this.checkDuplicates(car))
+    ];
+
+    const score = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+    const level: RiskLevel = score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+
+    return { score, level, reasons, assessedAt: new Date() };
+  }
+
+  // Store a fresh assessment on the car before it is saved. A high-risk active
+  // listing is pulled from the marketplace unless an admin already cleared it at
+  // this score; returns whether it was pulled.
+  static async screen(car: any) {
+    const assessment = await this.assess(car);
+    const clearance = await this.findClearance(car);
+    car.riskAssessment = { ...assessment, ...clearance };
+
+    const stillCleared = !!clearance &&
+      assessment.score <= clearance.clearedScore &&
+      assessment.reasons.every(reason => clearance.clearedReasons.includes(reason.code));
+    if (assessment.level !== 'high' || car.status !== 'active' || stillCleared) {
+      return { assessment, flagged: false };
+    }
+
+    car.status = 'under_review';
+    car.hiddenWithAccount = false;
+    car.moderation = {
+      action: 'review',
+      reason: `Automated risk score ${assessment.score}`,
+      actionedAt: new Date(),
+      previousStatus: 'active'
+    };
+    return { assessment, flagged: true };
+  }
+
+  // Record that an admin reviewed the listing and put it back. Needs the car loaded
+  // with `+riskAssessment`; listings that were never scored have nothing to clear.
+  static clear(car: any, adminId: any) {
+    const assessment = car.riskAssessment;
+    if (!assessment?.assessedAt) return;
+
+    car.set('riskAssessment', {
+      ...(assessment.toObject?.() ?? assessment),
+      clearedBy: adminId,
+      clearedAt: new Date(),
+      clearedScore: assessment.score,
+      clearedReasons: assessment.reasons.map((reason: any) => reason.code)
+    });
+  }
+
+  // riskAssessment isn't selected by default, so read the clearance from the database
+  private static async findClearance(car: any): Promise<RiskClearance | null> {
+    if (car.isNew) return null;
+    const stored = await Car.findById(car._id).select('+riskAssessment').lean();
+    const assessment: any = stored?.riskAssessment;
+    if (!assessment?.clearedAt) return null;
+
+    return {
+      clearedBy: assessment.clearedBy,
+      clearedAt: assessment.clearedAt,
+      clearedScore: assessment.clearedScore,
+      clearedReasons: assessment.clearedReasons || []
+    };
+  }
+
+  // Compare the price with active listings of the same make, model and year
+  private static async checkPrice(car: any): Promise<RiskReason[]> {
+    const { overview } = await SearchService.getMarketAnalysis(car.make, car.model, car.year, ['active'], car._id);
+    if (!overview.avgPrice || overview.totalListings < MIN_COMPARABLES) return [];
+
+    const ratio = car.price / overview.avgPrice;
+    const average = formatPrice(overview.avgPrice);
+    if (ratio < 0.5) {
+      return [{
+        code: 'price_far_below_market',
+        message: `Price is less than half the ${average} average for this make, model and year`,
+        points: 35
+      }];
+    }
+    if (ratio < 0.7) {
+      return [{
+        code: 'price_below_market',
+        message: `Price is more than 30% under the ${average} average for this make, model and year`,
+        points: 15
+      }];
+    }
+    return [];
+  }
+
+  private static checkMileage(car: any): RiskReason[] {
+    const years = Math.max(1, new Date().getFullYear() - car.year + 1);
+    const milesPerYear = car.mileage / years;
+
+    if (milesPerYear > MAX_MILES_PER_YEAR) {
+      return [{
+        code: 'mileage_too_high',
+        message: `${Math.round(milesPerYear).toLocaleString('en-US')} miles a year is implausible for the car's age`,
+        points: 20
+      }];
+    }
+    // Very low readings on older used cars are a classic sign of odometer rollback
+    if (car.condition !== 'new' && years >= 5 && milesPerYear < MIN_MILES_PER_YEAR) {
+      return [{
+        code: 'mileage_too_low',
+        message: `${car.mileage.toLocaleString('en-US')} miles is unusually low for a ${car.year} car`,
+        points: 15
+      }];
+    }
+    return [];
+  }
+
+  // Buyers should reach sellers through the platform, not off it
+  private static checkContactDetails(description: string = ''): RiskReason[] {
+    if (!CONTACT_PATTERNS.some(pattern => pattern.test(description))) return [];
+    return [{
+      code: 'contact_in_description',
+      message: 'Description contains an email address, phone number, link or messaging app',
+      points: 20
+    }];
+  }
+
+  // VINs, descriptions and photos already used on other sellers' listings
+  private static async checkDuplicates(car: any): Promise<RiskReason[]> {
+    const others = { _id: { $ne: car._id }, seller: { $ne: car.seller } };
+    const vin = car.ownershipHistory?.vin;
+    const description = car.description?.trim();
+    const imageUrls = (car.images || []).map((image: any) => image.url).filter(Boolean);
+
+    const [vinMatch, descriptionMatch, imageMatches] = await Promise.all([
+      // A sold car is legitimately relisted by its next owner
+      vin ? Car.exists({ ...others, 'ownershipHistory.vin': vin, status: { $ne: 'sold' } }) : null,
+      description?.length >= MIN_DUPLICATE_DESCRIPTION_LENGTH
+        ? Car.exists({ ...others, description })
+        : null,
+      imageUrls.length
+        ? Car.find({ ...others, 'images.url': { $in: imageUrls } }).select('images.url').lean()
+        : []
+    ]);
+
+    const reasons: RiskReason[] = [];
+    if (vinMatch) {
+      reasons.push({
+        code: 'duplicate_vin',
+        message: 'The VIN is on another seller\'s listing',
+        points: 40
+      });
+    }
+    if (descriptionMatch) {
+      reasons.push({
+        code: 'duplicate_description',
+        message: 'The description is copied from another seller\'s listing',
+        points: 25
+      });
+    }
+
+    const reused = new Set(
+      imageMatches.flatMap((match: any) => match.images.map((image: any) => image.url))
+    );
+    const reusedCount = imageUrls.filter((url: string) => reused.has(url)).length;
+    if (reusedCount) {
+      reasons.push({
+        code: 'reused_images',
+        message: `${reusedCount} photo${reusedCount === 1 ? ' is' : 's are'} used on another seller's listing`,
+        points: 25
+      });
+    }
+    return reasons;
+  }
+}
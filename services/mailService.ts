@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message: SMTP, a provider API, or the dev transports below
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message as JSON into a directory, for local development and inspection
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+const createDefaultTransport = (): MailTransport => process.env.MAIL_TRANSPORT === 'file'
+  ? new FileTransport(process.env.MAIL_OUTBOX_DIR || 'mail-outbox')
+  : new ConsoleTransport();
+
+let transport: MailTransport = createDefaultTransport();
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!
+));
+
+const appUrl = (pathname: string, token: string) =>
+  `${process.env.CLIENT_URL || 'http://localhost:3000'}${pathname}?token=${encodeURIComponent(token)}`;
+
+export class MailService {
+  // Swap the delivery mechanism, e.g. for a real provider in production
+  static setTransport(next: MailTransport) {
+    transport = next;
+  }
+
+  static async send(message: MailMessage) {
+    await transport.send(message);
+  }
+
+  static async sendVerificationEmail(user: { name: string; email: string }, token: string, expiresIn: string) {
+    const link = appUrl('/verify-email', token);
+    await this.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in ${expiresIn}.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p><a href="${link}">Confirm your email address</a></p><p>The link expires in ${expiresIn}.</p>`
+    });
+  }
+
+  static async sendPasswordResetEmail(user: { name: string; email: string }, token: string, expiresIn: string) {
+    const link = appUrl('/reset-password', token);
+    await this.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.name},\n\nReset your password by opening this link:\n${link}\n\nThe link expires in ${expiresIn} and can be used once. For your security you have been signed out on all devices. If you didn't ask for a reset, sign in again with your current password.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p><a href="${link}">Reset your password</a></p><p>The link expires in ${expiresIn} and can be used once. For your security you have been signed out on all devices. If you didn't ask for a reset, sign in again with your current password.</p>`
+    });
+  }
+}
@@ -0,0 +1,238 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Car from '../models/Car';
+import Message from '../models/Message';
+import { getIO } from '../socket';
+import { NotFoundError } from '../utils/httpErrors';
+
+const MESSAGE_STATUSES = ['unread', 'read', 'replied'];
+
+export const messageCreateSchema = z.object({
+  subject: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(2000),
+  carId: z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid car id').optional()
+});
+
+export const messageReplySchema = z.object({
+  content: z.string().trim().min(1).max(2000)
+});
+
+export class MessageService {
+  // Shape a message thread the way the dashboards consume it
+  static formatThread(message: any) {
+    const car = message.carId && message.carId.make ? message.carId : null;
+    const tradeIn = message.tradeIn && message.tradeIn.vehicle ? message.tradeIn : null;
+    const customer = message.userId && message.userId.phone !== undefined ? message.userId : null;
+    const lastEntry = message.conversation.length > 0
+      ? message.conversation[message.conversation.length - 1]
+      : null;
+
+    return {
+      _id: message._id,
+      customerName: message.userName,
+      customerEmail: message.userEmail,
+      customerPhone: customer?.phone,
+      carId: car ? car._id : message.carId,
+      carDetails: car ? {
+        make: car.make,
+        model: car.model,
+        year: car.year,
+        price: car.price
+      } : null,
+      subject: message.subject,
+      lastMessage: lastEntry ? lastEntry.content : message.content,
+      timestamp: message.updatedAt,
+      status: message.status,
+      priority: message.priority,
+      tradeIn: tradeIn ? {
+        _id: tradeIn._id,
+        vehicle: tradeIn.vehicle,
+        estimate: tradeIn.estimate,
+        offer: tradeIn.offer,
+        status: tradeIn.status,
+        respondedAt: tradeIn.respondedAt
+      } : null,
+      messages: message.conversation.map((conv: any) => ({
+        sender: conv.sender === 'admin' ? 'vendor' : 'customer',
+        content: conv.content,
+        timestamp: conv.timestamp
+      }))
+    };
+  }
+
+  static isPlatformAdmin(user: any) {
+    return user?.role === 'admin';
+  }
+
+  // Threads about cars the vendor owns, newest activity first
+  static async getSellerThreads(vendorId: string, options: any = {}) {
+    const carIds = await Car.find({ seller: vendorId }).distinct('_id');
+
+    // Threads opened before sellerId existed are matched through their car
+    return this.findThreads({
+      $or: [
+        { sellerId: vendorId },
+        { sellerId: { $exists: false }, carId: { $in: carIds } }
+      ]
+    }, options);
+  }
+
+  // Every thread on the platform, for platform admins
+  static async getAllThreads(options: any = {}) {
+    return this.findThreads({}, options);
+  }
+
+  private static async findThreads(filter: any, options: any = {}) {
+    const { status } = options;
+    if (status && MESSAGE_STATUSES.includes(status)) filter.status = status;
+
+    const messages = await Message.find(filter)
+      .populate('carId', 'make model year price')
+      .populate('userId', 'phone')
+      .populate('tradeIn')
+      .sort({ updatedAt: -1 });
+
+    return messages.map(message => this.formatThread(message));
+  }
+
+  // Resolve the seller participant, backfilling threads created before sellerId existed
+  static async resolveSellerId(message: any) {
+    if (message.sellerId) return message.sellerId.toString();
+    if (!message.carId) return null;
+
+    const car = await Car.findById(message.carId).select('seller').lean();
+    if (!car) return null;
+
+    message.sellerId = car.seller;
+    await message.save();
+    return car.seller.toString();
+  }
+
+  // Whether the user may reply to or manage a thread as the seller side
+  static async canManageThread(message: any, user: any) {
+    if (this.isPlatformAdmin(user)) return true;
+
+    const sellerId = await this.resolveSellerId(message);
+    return !!sellerId && sellerId === user.id;
+  }
+
+  // Load a thread for the seller side; null when missing or not theirs so callers can 404 either way
+  static async findThreadForStaff(user: any, messageId: string) {
+    const message = await Message.findById(messageId);
+    if (!message) return null;
+
+    return (await this.canManageThread(message, user)) ? message : null;
+  }
+
+  // Open a new thread from a buyer; the car's seller becomes the other participant.
+  // `link` lets callers fix the thread's id and attach a trade-in before anyone is notified.
+  static async createThread(
+    user: any,
+    data: z.infer<typeof messageCreateSchema>,
+    link: { _id?: mongoose.Types.ObjectId; tradeIn?: mongoose.Types.ObjectId } = {}
+  ) {
+    let sellerId;
+    if (data.carId) {
+      const car = await Car.findById(data.carId).select('seller').lean();
+      if (!car) throw new NotFoundError('Car not found');
+      sellerId = car.seller;
+    }
+
+    const message = new Message({
+      ...link,
+      userId: user._id ?? user.id,
+      userName: user.name,
+      userEmail: user.email,
+      subject: data.subject,
+      content: data.content,
+      carId: data.carId,
+      sellerId,
+      conversation: [{
+        sender: 'user',
+        content: data.content,
+        timestamp: new Date()
+      }]
+    });
+
+    await message.save();
+    await message.populate('carId', 'make model year price');
+
+    this.notifyStaff(message, {
+      _id: message._id,
+      customerName: message.userName,
+      customerEmail: message.userEmail,
+      subject: message.subject,
+      content: message.content,
+      carDetails: message.carId,
+      timestamp: message.createdAt,
+      status: message.status
+    });
+
+    return message;
+  }
+
+  // Deliver a buyer message to the thread's seller and to platform staff only
+  static notifyStaff(message: any, payload: any) {
+    const io = getIO();
+    const rooms = ['admins'];
+    if (message.sellerId) rooms.push(`user_${message.sellerId}`);
+
+    io.to(rooms).emit('newMessage', payload);
+  }
+
+  // Append a seller/staff reply and let the customer know
+  static async replyAsStaff(message: any, content: string) {
+    message.conversation.push({
+      sender: 'admin',
+      content,
+      timestamp: new Date()
+    });
+    message.status = 'replied';
+    message.updatedAt = new Date();
+
+    await message.save();
+    await message.populate('carId', 'make model year price');
+    await message.populate('userId', 'phone');
+    await message.populate('tradeIn');
+
+    const io = getIO();
+    io.to(`user_${message.userId._id ?? message.userId}`).emit('messageReply', {
+      messageId: message._id,
+      content,
+      timestamp: new Date()
+    });
+
+    return this.formatThread(message);
+  }
+
+  // Append a buyer reply and pass it on to the seller side
+  static async replyAsUser(message: any, content: string) {
+    message.conversation.push({
+      sender: 'user',
+      content,
+      timestamp: new Date()
+    });
+    message.status = 'read';
+    message.updatedAt = new Date();
+
+    await message.save();
+
+    // Emit to the seller and platform staff
+    await this.resolveSellerId(message);
+    this.notifyStaff(message, {
+      _id: message._id,
+      customerName: message.userName,
+      customerEmail: message.userEmail,
+      subject: message.subject,
+      content,
+      timestamp: new Date(),
+      status: message.status
+    });
+
+    return message;
+  }
+
+  static isValidStatus(status: string) {
+    return MESSAGE_STATUSES.includes(status);
+  }
+}
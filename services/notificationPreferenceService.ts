@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import User from '../models/User';
+
+// Every event a user can opt out of
+export const NOTIFICATION_EVENTS = [
+  'newCarListing',
+  'newLocalListing',
+  'newMakeListing',
+  'priceAlert',
+  'priceAlertTriggered',
+  'savedSearchMatch',
+  'similarCars',
+  'marketTrends',
+  'dailyDigest',
+  'newInquiry',
+  'performanceMilestone',
+  'inventoryAlert',
+  'salesAchievement',
+  'marketInsight',
+  'dailySummary',
+  'pricingAlert',
+  'batchNotification',
+  'newBooking',
+  'bookingCancelled',
+  'listingModerated',
+  'financeLead',
+  'tradeInOffer',
+  'tradeInResponse'
+] as const;
+
+// Events governed by digestFrequency
+const DIGEST_EVENTS = ['dailyDigest', 'dailySummary'];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const notificationPreferencesSchema = z.object({
+  events: z.record(z.enum(NOTIFICATION_EVENTS), z.boolean()).optional(),
+  quietHours: z.object({
+    enabled: z.boolean().optional(),
+    start: timeOfDay.optional(),
+    end: timeOfDay.optional(),
+    timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional()
+  }).optional(),
+  digestFrequency: z.enum(['daily', 'weekly', 'never']).optional()
+});
+
+export interface NotificationPreferences {
+  events: Record<string, boolean>;
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+  digestFrequency: 'daily' | 'weekly' | 'never';
+}
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  events: {},
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: 'UTC'
+  },
+  digestFrequency: 'daily'
+};
+
+export class NotificationPreferenceService {
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await User.findById(userId).select('notificationPreferences').lean();
+    return this.normalize(user?.notificationPreferences);
+  }
+
+  static async updatePreferences(userId: string, updates: z.infer<typeof notificationPreferencesSchema>) {
+    // Use dotted paths so partial updates don't wipe sibling settings
+    const $set: any = {};
+    Object.entries(updates.events || {}).forEach(([event, enabled]) => {
+      $set[`notificationPreferences.events.${event}`] = enabled;
+    });
+    Object.entries(updates.quietHours || {}).forEach(([key, value]) => {
+      $set[`notificationPreferences.quietHours.${key}`] = value;
+    });
+    if (updates.digestFrequency) {
+      $set['notificationPreferences.digestFrequency'] = updates.digestFrequency;
+    }
+
+    const user = await User.findByIdAndUpdate(userId, { $set }, { new: true })
+      .select('notificationPreferences')
+      .lean();
+
+    return this.normalize(user?.notificationPreferences);
+  }
+
+  // Fill in defaults for anything the stored document doesn't have
+  static normalize(stored: any): NotificationPreferences {
+    const events = stored?.events instanceof Map
+      ? Object.fromEntries(stored.events)
+      : { ...(stored?.events || {}) };
+
+    return {
+      events,
+      quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...(stored?.quietHours || {}) },
+      digestFrequency: stored?.digestFrequency || DEFAULT_PREFERENCES.digestFrequency
+    };
+  }
+
+  // Whether the user wants this event at all (inbox and live)
+  static isEventEnabled(preferences: NotificationPreferences | undefined, event: string, date: Date = new Date()) {
+    if (!preferences) return true;
+    if (preferences.events[event] === false) return false;
+
+    if (DIGEST_EVENTS.includes(event)) {
+      if (preferences.digestFrequency === 'never') return false;
+      if (preferences.digestFrequency === 'weekly') {
+        return this.getZonedParts(date, preferences.quietHours.timezone).weekday === 'Mon';
+      }
+    }
+
+    return true;
+  }
+
+  // Whether live pushes should be held back right now
+  static isQuietTime(preferences: NotificationPreferences | undefined, date: Date = new Date()) {
+    if (!preferences?.quietHours.enabled) return false;
+
+    const { start, end, timezone } = preferences.quietHours;
+    const { minutes } = this.getZonedParts(date, timezone);
+    const toMinutes = (time: string) => {
+      const [hours, mins] = time.split(':').map(Number);
+      return hours * 60 + mins;
+    };
+    const startMinutes = toMinutes(start);
+    const endMinutes = toMinutes(end);
+
+    if (startMinutes === endMinutes) return false;
+    if (startMinutes < endMinutes) {
+      return minutes >= startMinutes && minutes < endMinutes;
+    }
+    // Window wraps past midnight, e.g. 22:00-07:00
+    return minutes >= startMinutes || minutes < endMinutes;
+  }
+
+  // Whether an event should be pushed live to a connected socket
+  static allowsLive(preferences: NotificationPreferences | undefined, event: string, date: Date = new Date()) {
+    return this.isEventEnabled(preferences, event, date) && !this.isQuietTime(preferences, date);
+  }
+
+  private static getZonedParts(date: Date, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimezone(timeZone) ? timeZone : 'UTC',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(part => part.type === type)?.value;
+    return {
+      weekday: get('weekday'),
+      minutes: Number(get('hour')) * 60 + Number(get('minute'))
+    };
+  }
+}
@@ -1,28 +1,31 @@
-import { getIO, emitToLocation, emitToMakeInterests, emitToUser } from '../socket';
+import { emitToLocation, emitToMakeInterests, emitToSubscribers } from '../socket';
 import Car from '../models/Car';
+import { PriceAlertService } from './priceAlertService';
+import { InboxService } from './inboxService';
 
 export class NotificationService {
   // Notify users about new listings in their area
   static async notifyNewListing(car: any) {
-    const io = getIO();
-    
     // Emit to location-based rooms
-    emitToLocation(car.location.city, car.location.state, 'newLocalListing', {
+    await emitToLocation(car.location.city, car.location.state, 'newLocalListing', {
       car,
       message: `New ${car.year} ${car.make} ${car.model} available in ${car.location.city}`
     });
 
     // Emit to make-specific rooms
-    emitToMakeInterests(car.make, 'newMakeListing', {
+    await emitToMakeInterests(car.make, 'newMakeListing', {
       car,
       message: `New ${car.make} ${car.model} listed for $${car.price.toLocaleString()}`
     });
 
     // Emit to general feed
-    io.emit('newCarListing', {
+    await emitToSubscribers('newCarListing', {
       car,
       message: `New ${car.year} ${car.make} ${car.model} listed`
     });
+
+    // Fire price alerts the new listing already satisfies
+    await PriceAlertService.checkCar(car);
   }
 
   // Notify about price drops
@@ -30,12 +33,11 @@ export class NotificationService {
     const car = await Car.findById(carId).populate('seller', 'name').lean();
     if (!car) return;
 
-    const io = getIO();
     const priceChange = ((newPrice - oldPrice) / oldPrice) * 100;
     
     if (priceChange < -5) { // 5% or more price drop
       // Notify location-based users
-      emitToLocation(car.location.city, car.location.state, 'priceAlert', {
+      await emitToLocation(car.location.city, car.location.state, 'priceAlert', {
         car,
         oldPrice,
         newPrice,
@@ -44,13 +46,18 @@ export class NotificationService {
       });
 
       // Notify make-interested users
-      emitToMakeInterests(car.make, 'priceAlert', {
+      await emitToMakeInterests(car.make, 'priceAlert', {
         car,
         oldPrice,
         newPrice,
         discount: Math.abs(priceChange).toFixed(1)
       });
     }
+
+    // Fire price alerts the new price brings the car under
+    if (newPrice < oldPrice) {
+      await PriceAlertService.checkCar({ ...car, price: newPrice }, oldPrice);
+    }
   }
 
   // Notify seller about inquiries
@@ -58,7 +65,7 @@ export class NotificationService {
     const car = await Car.findById(carId).lean();
     if (!car) return;
 
-    emitToUser(car.seller.toString(), 'newInquiry', {
+    await InboxService.deliver(car.seller.toString(), 'newInquiry', {
       carId,
       car: {
         make: car.make,
@@ -88,7 +95,7 @@ export class NotificationService {
     .lean();
 
     if (similarCars.length > 0) {
-      emitToUser(userId, 'similarCars', {
+      await InboxService.deliver(userId, 'similarCars', {
         viewedCar: {
           make: viewedCar.make,
           model: viewedCar.model,
@@ -102,8 +109,6 @@ export class NotificationService {
 
   // Notify about market trends
   static async notifyMarketTrends() {
-    const io = getIO();
-    
     // Get trending makes (most listed in last 24 hours)
     const trending = await Car.aggregate([
       {
@@ -124,7 +129,7 @@ export class NotificationService {
     ]);
 
     if (trending.length > 0) {
-      io.emit('marketTrends', {
+      await emitToSubscribers('marketTrends', {
         trending,
         message: 'Hot in the market today',
         timestamp: new Date()
@@ -134,8 +139,6 @@ export class NotificationService {
 
   // Send daily digest to active users
   static async sendDailyDigest() {
-    const io = getIO();
-    
     const [newListings, priceDrops, popularMakes] = await Promise.all([
       // New listings in last 24 hours
       Car.countDocuments({
@@ -159,7 +162,7 @@ export class NotificationService {
       ])
     ]);
 
-    io.emit('dailyDigest', {
+    await emitToSubscribers('dailyDigest', {
       newListings,
       priceDrops: priceDrops.length,
       popularMakes,
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import PriceAlert from '../models/PriceAlert';
+import { InboxService } from './inboxService';
+
+export const priceAlertSchema = z.object({
+  make: z.string().trim().min(1),
+  model: z.string().trim().min(1).optional(),
+  maxPrice: z.coerce.number().positive(),
+  location: z.string().trim().min(1).optional(),
+  cooldownHours: z.coerce.number().min(0).max(24 * 30).optional()
+});
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class PriceAlertService {
+  static async createAlert(userId: string, data: z.infer<typeof priceAlertSchema>) {
+    return PriceAlert.create({ ...data, user: userId });
+  }
+
+  static async getAlerts(userId: string) {
+    return PriceAlert.find({ user: userId })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  static async deleteAlert(userId: string, alertId: string) {
+    return PriceAlert.findOneAndDelete({ _id: alertId, user: userId }).lean();
+  }
+
+  // Check whether an alert's location ("City" or "City, State") covers the car
+  private static matchesLocation(alertLocation: string | undefined, car: any) {
+    if (!alertLocation) return true;
+
+    const [city, state] = alertLocation.split(',').map(part => part.trim().toLowerCase());
+    if (city && city !== car.location?.city?.toLowerCase()) return false;
+    if (state && state !== car.location?.state?.toLowerCase()) return false;
+    return true;
+  }
+
+  // Fire alerts whose maxPrice the car is now at or under
+  static async checkCar(car: any, oldPrice?: number) {
+    if (!car || car.status !== 'active') return;
+
+    const candidates = await PriceAlert.find({
+      active: true,
+      user: { $ne: car.seller?._id ?? car.seller },
+      make: new RegExp(`^${escapeRegex(car.make)}$`, 'i'),
+      $or: [
+        { model: { $exists: false } },
+        { model: null },
+        { model: new RegExp(`^${escapeRegex(car.model)}$`, 'i') }
+      ],
+      maxPrice: { $gte: car.price }
+    }).lean();
+
+    const now = new Date();
+
+    for (const alert of candidates) {
+      if (!this.matchesLocation(alert.location, car)) continue;
+
+      // Claim the alert atomically so concurrent updates can't double-fire it
+      const cooldownStart = new Date(now.getTime() - alert.cooldownHours * 60 * 60 * 1000);
+      const result = await PriceAlert.updateOne(
+        {
+          _id: alert._id,
+          $or: [
+            { lastTriggeredAt: { $exists: false } },
+            { lastTriggeredAt: null },
+            { lastTriggeredAt: { $lte: cooldownStart } }
+          ]
+        },
+        { lastTriggeredAt: now, $inc: { triggerCount: 1 } }
+      );
+      if (result.modifiedCount === 0) continue;
+
+      await InboxService.deliver(alert.user.toString(), 'priceAlertTriggered', {
+        alertId: alert._id,
+        car: {
+          _id: car._id,
+          make: car.make,
+          model: car.model,
+          year: car.year,
+          price: car.price,
+          location: car.location
+        },
+        maxPrice: alert.maxPrice,
+        oldPrice,
+        message: `${car.year} ${car.make} ${car.model} is now $${car.price.toLocaleString()}, under your $${alert.maxPrice.toLocaleString()} alert`,
+        timestamp: now
+      });
+    }
+  }
+}
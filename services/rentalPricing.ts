@@ -0,0 +1,220 @@
+/**
+ * Rental pricing engine.
+ *
+ * Pure functions only: no database or clock access, so the same rules and
+ * input always produce the same quote. Dates are evaluated in UTC.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest rental that can be quoted or booked; the quote prices every day on its own
+export const MAX_RENTAL_DAYS = 90;
+
+export interface SeasonalRate {
+  name: string;
+  start: string; // MM-DD
+  end: string; // MM-DD
+  multiplier: number;
+}
+
+export interface RentalPricingRules {
+  baseDailyRate: number;
+  weekendMultiplier?: number;
+  weekendDays?: number[];
+  seasonalRates?: SeasonalRate[];
+  lengthOfStayDiscounts?: Array<{ minDays: number; percent: number }>;
+  mileage?: {
+    includedPerDay?: number | null;
+    overageRate?: number;
+  };
+  oneWayFee?: number;
+  taxRate?: number;
+  fuel?: {
+    chargePerEighth?: number;
+  };
+}
+
+export interface RentalQuoteInput {
+  pickupDate: Date;
+  returnDate: Date;
+  estimatedMiles?: number;
+  oneWay?: boolean;
+}
+
+export interface QuoteLineItem {
+  code: 'rental' | 'length_of_stay_discount' | 'mileage_overage' | 'one_way_fee' | 'tax';
+  label: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+export interface RentalQuote {
+  days: number;
+  dailyBreakdown: Array<{
+    date: string;
+    rate: number;
+    weekend: boolean;
+    season?: string;
+  }>;
+  lineItems: QuoteLineItem[];
+  mileage: {
+    included: number | null;
+    estimated?: number;
+    overageMiles: number;
+    overageCharge: number;
+  };
+  subtotal: number;
+  discount: number;
+  fees: number;
+  tax: number;
+  total: number;
+}
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Rental days are counted in started 24h periods
+export const countRentalDays = (pickupDate: Date, returnDate: Date) =>
+  Math.max(1, Math.ceil((returnDate.getTime() - pickupDate.getTime()) / DAY_MS));
+
+const toMonthDay = (date: Date) =>
+  `${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+// MM-DD strings compare correctly as text; ranges may wrap the new year
+export const findSeason = (date: Date, seasons: SeasonalRate[] = []) => {
+  const day = toMonthDay(date);
+  return seasons.find(season => season.start <= season.end
+    ? day >= season.start && day <= season.end
+    : day >= season.start || day <= season.end);
+};
+
+// Best length-of-stay tier the rental qualifies for
+export const findLengthOfStayDiscount = (
+  days: number,
+  discounts: RentalPricingRules['lengthOfStayDiscounts'] = []
+) => discounts
+  .filter(tier => days >= tier.minDays)
+  .sort((a, b) => b.minDays - a.minDays)[0];
+
+// Charge for miles driven beyond the allowance; unlimited when includedPerDay is unset
+export const calculateMileageCharge = (
+  rules: Pick<RentalPricingRules, 'mileage'>,
+  days: number,
+  miles: number
+) => {
+  const includedPerDay = rules.mileage?.includedPerDay;
+  if (includedPerDay === undefined || includedPerDay === null) {
+    return { included: null, overageMiles: 0, overageCharge: 0 };
+  }
+
+  const included = includedPerDay * days;
+  const overageMiles = Math.max(0, Math.ceil(miles - included));
+  return {
+    included,
+    overageMiles,
+    overageCharge: roundMoney(overageMiles * (rules.mileage?.overageRate || 0))
+  };
+};
+
+// Refuel charge for each eighth of a tank returned below the pickup level
+export const calculateFuelCharge = (
+  rules: Pick<RentalPricingRules, 'fuel'>,
+  pickupLevel: number,
+  returnLevel: number
+) => {
+  const shortfall = Math.max(0, pickupLevel - returnLevel);
+  return {
+    shortfall,
+    charge: roundMoney(shortfall * (rules.fuel?.chargePerEighth || 0))
+  };
+};
+
+export const calculateRentalQuote = (rules: RentalPricingRules, input: RentalQuoteInput): RentalQuote => {
+  if (!(input.returnDate > input.pickupDate)) {
+    throw new Error('Return date must be after pickup date');
+  }
+
+  const days = countRentalDays(input.pickupDate, input.returnDate);
+  if (days > MAX_RENTAL_DAYS) {
+    throw new Error(`Rentals are limited to ${MAX_RENTAL_DAYS} days`);
+  }
+  const weekendDays = rules.weekendDays ?? [5, 6];
+  const weekendMultiplier = rules.weekendMultiplier ?? 1;
+
+  // Price each rental day on its own so weekends and seasons can overlap
+  const dailyBreakdown = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(input.pickupDate.getTime() + i * DAY_MS);
+    const weekend = weekendDays.includes(date.getUTCDay());
+    const season = findSeason(date, rules.seasonalRates);
+    const rate = roundMoney(
+      rules.baseDailyRate * (weekend ? weekendMultiplier : 1) * (season ? season.multiplier : 1)
+    );
+
+    dailyBreakdown.push({
+      date: date.toISOString().slice(0, 10),
+      rate,
+      weekend,
+      season: season?.name
+    });
+  }
+
+  const subtotal = roundMoney(dailyBreakdown.reduce((sum, day) => sum + day.rate, 0));
+  const lineItems: QuoteLineItem[] = [{
+    code: 'rental',
+    label: `Rental (${days} day${days === 1 ? '' : 's'})`,
+    quantity: days,
+    unitPrice: rules.baseDailyRate,
+    amount: subtotal
+  }];
+
+  const tier = findLengthOfStayDiscount(days, rules.lengthOfStayDiscounts);
+  const discount = tier ? roundMoney(subtotal * tier.percent / 100) : 0;
+  if (discount > 0) {
+    lineItems.push({
+      code: 'length_of_stay_discount',
+      label: `${tier.percent}% off for ${tier.minDays}+ days`,
+      amount: -discount
+    });
+  }
+
+  const mileage = calculateMileageCharge(rules, days, input.estimatedMiles || 0);
+  if (mileage.overageCharge > 0) {
+    lineItems.push({
+      code: 'mileage_overage',
+      label: `Estimated mileage over ${mileage.included} mile allowance`,
+      quantity: mileage.overageMiles,
+      unitPrice: rules.mileage?.overageRate,
+      amount: mileage.overageCharge
+    });
+  }
+
+  const oneWayFee = input.oneWay ? roundMoney(rules.oneWayFee || 0) : 0;
+  if (oneWayFee > 0) {
+    lineItems.push({ code: 'one_way_fee', label: 'One-way drop fee', amount: oneWayFee });
+  }
+
+  const fees = roundMoney(mileage.overageCharge + oneWayFee);
+  const taxable = roundMoney(subtotal - discount + fees);
+  const tax = roundMoney(taxable * (rules.taxRate || 0) / 100);
+  if (tax > 0) {
+    lineItems.push({ code: 'tax', label: `Tax (${rules.taxRate}%)`, amount: tax });
+  }
+
+  return {
+    days,
+    dailyBreakdown,
+    lineItems,
+    mileage: {
+      included: mileage.included,
+      estimated: input.estimatedMiles,
+      overageMiles: mileage.overageMiles,
+      overageCharge: mileage.overageCharge
+    },
+    subtotal,
+    discount,
+    fees,
+    tax,
+    total: roundMoney(taxable + tax)
+  };
+};
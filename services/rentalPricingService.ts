@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import PricingRules from '../models/PricingRules';
+import { calculateRentalQuote, countRentalDays, MAX_RENTAL_DAYS, RentalPricingRules } from './rentalPricing';
+
+const monthDay = z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Expected MM-DD');
+
+export const pricingRulesUpdateSchema = z.object({
+  baseDailyRate: z.number().positive().optional(),
+  weekendMultiplier: z.number().min(0).max(10).optional(),
+  weekendDays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  seasonalRates: z.array(z.object({
+    name: z.string().trim().min(1).max(50),
+    start: monthDay,
+    end: monthDay,
+    multiplier: z.number().min(0).max(10)
+  })).max(20).optional(),
+  lengthOfStayDiscounts: z.array(z.object({
+    minDays: z.number().int().min(1),
+    percent: z.number().min(0).max(100)
+  })).max(10).optional(),
+  mileage: z.object({
+    includedPerDay: z.number().min(0).nullable().optional(),
+    overageRate: z.number().min(0).optional()
+  }).optional(),
+  oneWayFee: z.number().min(0).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  fuel: z.object({
+    chargePerEighth: z.number().min(0)
+  }).optional()
+});
+
+const quoteLocationSchema = z.object({
+  city: z.string().trim().min(1),
+  state: z.string().trim().min(1)
+});
+
+export const quoteRequestSchema = z.object({
+  pickupDate: z.coerce.date(),
+  returnDate: z.coerce.date(),
+  pickupLocation: quoteLocationSchema.optional(),
+  returnLocation: quoteLocationSchema.optional(),
+  estimatedMiles: z.coerce.number().min(0).optional()
+}).refine(data => data.returnDate > data.pickupDate, {
+  message: 'Return date must be after pickup date',
+  path: ['returnDate']
+}).refine(data => countRentalDays(data.pickupDate, data.returnDate) <= MAX_RENTAL_DAYS, {
+  message: `Rentals are limited to ${MAX_RENTAL_DAYS} days`,
+  path: ['returnDate']
+});
+
+type Location = { city?: string; state?: string };
+
+const sameLocation = (a: Location, b: Location) =>
+  a.city?.trim().toLowerCase() === b.city?.trim().toLowerCase()
+  && a.state?.trim().toLowerCase() === b.state?.trim().toLowerCase();
+
+export class RentalPricingService {
+  // Vendor's rules, or the schema defaults when none are saved yet
+  static async getRules(vendorId: string) {
+    const rules = await PricingRules.findOne({ vendor: vendorId }).lean();
+    if (rules) return rules;
+
+    return new PricingRules({ vendor: vendorId }).toObject();
+  }
+
+  static async updateRules(vendorId: string, updates: z.infer<typeof pricingRulesUpdateSchema>) {
+    const $set: any = { ...updates };
+    // Merge mileage and fuel settings instead of replacing the whole object
+    (['mileage', 'fuel'] as const).forEach(group => {
+      if (!updates[group]) return;
+      delete $set[group];
+      Object.entries(updates[group]).forEach(([key, value]) => {
+        $set[`${group}.${key}`] = value;
+      });
+    });
+
+    return PricingRules.findOneAndUpdate(
+      { vendor: vendorId },
+      { $set },
+      { new: true, upsert: true, setDefaultsOnInsert: true, runValidators: true }
+    ).lean();
+  }
+
+  // Itemized quote for renting a car; null when neither the car nor the vendor sets a daily rate
+  static async quoteForCar(car: any, input: z.infer<typeof quoteRequestSchema>) {
+    const rules = await this.getRules(car.seller.toString());
+    const baseDailyRate = car.rental?.dailyRate ?? rules.baseDailyRate;
+    if (!baseDailyRate) return null;
+
+    const carLocation = { city: car.location.city, state: car.location.state };
+    const pickupLocation = input.pickupLocation || carLocation;
+    const returnLocation = input.returnLocation || pickupLocation;
+
+    const pricingRules: RentalPricingRules = {
+      baseDailyRate,
+      weekendMultiplier: rules.weekendMultiplier,
+      weekendDays: rules.weekendDays,
+      seasonalRates: rules.seasonalRates,
+      lengthOfStayDiscounts: rules.lengthOfStayDiscounts,
+      mileage: rules.mileage,
+      oneWayFee: rules.oneWayFee,
+      taxRate: rules.taxRate
+    };
+
+    return calculateRentalQuote(pricingRules, {
+      pickupDate: input.pickupDate,
+      returnDate: input.returnDate,
+      estimatedMiles: input.estimatedMiles,
+      oneWay: !sameLocation(pickupLocation, returnLocation)
+    });
+  }
+}
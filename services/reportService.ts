@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import Car from '../models/Car';
+import ListingReport, { AUTOMATED_REPORT_REASON, REPORT_REASONS } from '../models/ListingReport';
+import { InboxService } from './inboxService';
+import { RiskAssessment } from './listingRiskService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/httpErrors';
+
+// Open reports from different buyers before a listing is pulled for review
+const REVIEW_THRESHOLD = Number(process.env.REPORT_REVIEW_THRESHOLD) || 3;
+
+export const listingReportSchema = z.object({
+  reason: z.preprocess(
+    value => typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : value,
+    z.enum(REPORT_REASONS)
+  ),
+  details: z.string().trim().max(1000).optional()
+});
+
+export class ReportService {
+  static async createReport(reporterId: string, carId: string, data: z.infer<typeof listingReportSchema>) {
+    const car = await Car.findById(carId).select('seller status make model year');
+    if (!car || car.status === 'removed') {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.seller.toString() === reporterId) {
+      throw new BadRequestError("You can't report your own listing");
+    }
+    if (!['active', 'under_review'].includes(car.status)) {
+      throw new BadRequestError('Only live listings can be reported');
+    }
+    if (await ListingReport.exists({ car: car._id, reporter: reporterId, status: 'open' })) {
+      throw new ConflictError('You have already reported this listing');
+    }
+
+    const report = await ListingReport.create({ ...data, car: car._id, reporter: reporterId });
+    const underReview = await this.checkThreshold(car);
+
+    return { report, underReview };
+  }
+
+  // Pull an active listing from search once enough buyers reported it
+  private static async checkThreshold(car: any) {
+    if (car.status === 'under_review') return true;
+
+    const openReports = await ListingReport.countDocuments({ car: car._id, source: 'buyer', status: 'open' });
+    if (openReports < REVIEW_THRESHOLD) return false;
+
+    const reason = `Reported by ${openReports} buyers`;
+    const claimed = await Car.updateOne(
+      { _id: car._id, status: 'active' },
+      {
+        $set: {
+          status: 'under_review',
+          hiddenWithAccount: false,
+          moderation: { action: 'review', reason, actionedAt: new Date(), previousStatus: 'active' }
+        }
+      }
+    );
+    if (claimed.modifiedCount === 0) return false;
+
+    await InboxService.deliver(car.seller.toString(), 'listingModerated', {
+      type: 'moderation',
+      carId: car._id,
+      action: 'review',
+      reason,
+      status: 'under_review',
+      message: `Your ${car.year} ${car.make} ${car.model} listing is hidden from search while our moderators review buyer reports`,
+      timestamp: new Date(),
+      priority: 'high'
+    });
+    return true;
+  }
+
+  // Queue a listing the risk check pulled from the marketplace, once per review
+  static async createAutomatedReport(carId: any, assessment: RiskAssessment) {
+    const existing = await ListingReport.exists({ car: carId, source: 'automated', status: 'open' });
+    if (existing) return null;
+
+    return ListingReport.create({
+      car: carId,
+      source: 'automated',
+      reason: AUTOMATED_REPORT_REASON,
+      details: `Risk score ${assessment.score}: ${assessment.reasons.map(reason => reason.message).join('; ')}`
+    });
+  }
+
+  static async getOpenReports(carId: string) {
+    return ListingReport.find({ car: carId, status: 'open' }).lean();
+  }
+
+  // Every report about a listing, newest first, for the moderator's detail view
+  static async getReportsForCar(carId: string) {
+    return ListingReport.find({ car: carId })
+      .sort({ createdAt: -1 })
+      .populate('reporter', 'name email')
+      .populate('resolution.resolvedBy', 'name email')
+      .lean();
+  }
+
+  // Listings with open reports, most reported first, then oldest first
+  static async getQueue(page: number, limit: number) {
+    const [result] = await ListingReport.aggregate([
+      { $match: { status: 'open' } },
+      {
+        $group: {
+          _id: '$car',
+          reportCount: { $sum: 1 },
+          reasons: { $push: '$reason' },
+          firstReportedAt: { $min: '$createdAt' },
+          lastReportedAt: { $max: '$createdAt' }
+        }
+      },
+      { $sort: { reportCount: -1, firstReportedAt: 1 } },
+      {
+        $facet: {
+          items: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: 'cars',
+                localField: '_id',
+                foreignField: '_id',
+                as: 'car'
+              }
+            },
+            { $unwind: '$car' },
+            {
+              $project: {
+                reportCount: 1,
+                reasons: 1,
+                firstReportedAt: 1,
+                lastReportedAt: 1,
+                car: {
+                  _id: 1, make: 1, model: 1, year: 1, price: 1, status: 1, seller: 1, images: 1
+                }
+              }
+            }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const items = result.items.map((item: any) => ({
+      car: item.car,
+      reportCount: item.reportCount,
+      reasons: item.reasons.reduce((counts: Record<string, number>, reason: string) => {
+        counts[reason] = (counts[reason] || 0) + 1;
+        return counts;
+      }, {}),
+      firstReportedAt: item.firstReportedAt,
+      lastReportedAt: item.lastReportedAt
+    }));
+
+    return { items, total: result.total[0]?.count || 0 };
+  }
+
+  static async resolveOpenReports(carId: any, resolution: { action: string; note?: string; resolvedBy: any }) {
+    const result = await ListingReport.updateMany(
+      { car: carId, status: 'open' },
+      { $set: { status: 'resolved', resolution: { ...resolution, resolvedAt: new Date() } } }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -1,27 +1,30 @@
+import mongoose from 'mongoose';
 import Car from '../models/Car';
+import SavedSearch from '../models/SavedSearch';
+import { InboxService } from './inboxService';
 
-export class SearchService {
-  // Advanced search with multiple filters
-  static async advancedSearch(filters: any, options: any = {}) {
-    const {
-      page = 1,
-      limit = 20,
-      sortBy = 'listedAt',
-      sortOrder = 'desc'
-    } = options;
+// Saved searches remember only the most recent matches; duplicates only matter for retries
+const MAX_NOTIFIED_CARS = 200;
 
-    // Build aggregation pipeline
-    const pipeline: any[] = [];
+// Filters are user input; match them literally
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-    // Match stage
+const containsText = (value: any, filter: any) =>
+  typeof value === 'string' && value.toLowerCase().includes(String(filter).toLowerCase());
+
+const isUnset = (field: string) => ({ [`filters.${field}`]: { $in: [null, '', 0] } });
+
+export class SearchService {
+  // Translate search filters into a Car match query
+  static buildMatchStage(filters: any) {
     const matchStage: any = { status: 'active' };
     
     if (filters.search) {
       matchStage.$text = { $search: filters.search };
     }
     
-    if (filters.make) matchStage.make = new RegExp(filters.make, 'i');
-    if (filters.model) matchStage.model = new RegExp(filters.model, 'i');
+    if (filters.make) matchStage.make = new RegExp(escapeRegex(String(filters.make)), 'i');
+    if (filters.model) matchStage.model = new RegExp(escapeRegex(String(filters.model)), 'i');
     
     if (filters.minPrice || filters.maxPrice) {
       matchStage.price = {};
@@ -40,14 +43,55 @@ export class SearchService {
     if (filters.fuelType) matchStage.fuelType = filters.fuelType;
     if (filters.transmission) matchStage.transmission = filters.transmission;
     if (filters.bodyType) matchStage.bodyType = filters.bodyType;
-    if (filters.drivetrain) matchStage.drivetrain = filters.drivetrain;
+    if (filters.drivetrain) matchStage['enginePerformance.drivetrain'] = filters.drivetrain;
     
-    if (filters.city) matchStage['location.city'] = new RegExp(filters.city, 'i');
-    if (filters.state) matchStage['location.state'] = new RegExp(filters.state, 'i');
+    if (filters.city) matchStage['location.city'] = new RegExp(escapeRegex(String(filters.city)), 'i');
+    if (filters.state) matchStage['location.state'] = new RegExp(escapeRegex(String(filters.state)), 'i');
     
     if (filters.featured === 'true') matchStage.featured = true;
     if (filters.urgent === 'true') matchStage.urgent = true;
 
+    return matchStage;
+  }
+
+  // In-memory version of buildMatchStage for a single car. Full-text `search` needs
+  // the text index and is left to the database.
+  static matchesFilters(car: any, filters: any) {
+    if (car.status !== 'active') return false;
+    if (filters.make && !containsText(car.make, filters.make)) return false;
+    if (filters.model && !containsText(car.model, filters.model)) return false;
+    if (filters.minPrice && car.price < Number(filters.minPrice)) return false;
+    if (filters.maxPrice && car.price > Number(filters.maxPrice)) return false;
+    if (filters.minYear && car.year < Number(filters.minYear)) return false;
+    if (filters.maxYear && car.year > Number(filters.maxYear)) return false;
+    if (filters.maxMileage && car.mileage > Number(filters.maxMileage)) return false;
+    if (filters.condition && car.condition !== filters.condition) return false;
+    if (filters.fuelType && car.fuelType !== filters.fuelType) return false;
+    if (filters.transmission && car.transmission !== filters.transmission) return false;
+    if (filters.bodyType && car.bodyType !== filters.bodyType) return false;
+    if (filters.drivetrain && car.enginePerformance?.drivetrain !== filters.drivetrain) return false;
+    if (filters.city && !containsText(car.location?.city, filters.city)) return false;
+    if (filters.state && !containsText(car.location?.state, filters.state)) return false;
+    if (filters.featured === 'true' && !car.featured) return false;
+    if (filters.urgent === 'true' && !car.urgent) return false;
+    return true;
+  }
+
+  // Advanced search with multiple filters
+  static async advancedSearch(filters: any, options: any = {}) {
+    const {
+      page = 1,
+      limit = 20,
+      sortBy = 'listedAt',
+      sortOrder = 'desc'
+    } = options;
+
+    // Build aggregation pipeline
+    const pipeline: any[] = [];
+
+    // Match stage
+    const matchStage = this.buildMatchStage(filters);
+
     pipeline.push({ $match: matchStage });
 
     // Add text score for search relevance
@@ -197,14 +241,76 @@ export class SearchService {
 
   // Saved searches functionality
   static async saveSearch(userId: string, searchParams: any, name: string) {
-    // In a real app, you'd save this to a SavedSearch model
-    return {
-      id: Date.now().toString(),
-      userId,
+    const savedSearch = await SavedSearch.create({
+      user: userId,
       name,
-      params: searchParams,
-      createdAt: new Date()
-    };
+      filters: searchParams
+    });
+
+    return savedSearch;
+  }
+
+  static async getSavedSearches(userId: string) {
+    return SavedSearch.find({ user: userId })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  static async renameSavedSearch(userId: string, searchId: string, name: string) {
+    return SavedSearch.findOneAndUpdate(
+      { _id: searchId, user: userId },
+      { name },
+      { new: true }
+    ).lean();
+  }
+
+  static async deleteSavedSearch(userId: string, searchId: string) {
+    return SavedSearch.findOneAndDelete({ _id: searchId, user: userId }).lean();
+  }
+
+  // Notify owners of saved searches that match a newly listed car
+  static async notifySavedSearchMatches(car: any) {
+    // Narrow down by the indexed body type and price filters, then match the rest in memory
+    const cursor = SavedSearch.find({
+      user: { $ne: car.seller?._id ?? car.seller },
+      $and: [
+        { $or: [isUnset('bodyType'), { 'filters.bodyType': car.bodyType }] },
+        { $or: [isUnset('minPrice'), { 'filters.minPrice': { $lte: car.price } }] },
+        { $or: [isUnset('maxPrice'), { 'filters.maxPrice': { $gte: car.price } }] }
+      ]
+    }).select('user name filters').lean().cursor();
+
+    for await (const savedSearch of cursor) {
+      const filters = savedSearch.filters || {};
+      if (!this.matchesFilters(car, filters)) continue;
+      if (filters.search && !(await Car.exists({ _id: car._id, $text: { $search: String(filters.search) } }))) continue;
+
+      // Only the first writer to record this car gets to notify
+      const result = await SavedSearch.updateOne(
+        { _id: savedSearch._id, notifiedCars: { $ne: car._id } },
+        {
+          $push: { notifiedCars: { $each: [car._id], $slice: -MAX_NOTIFIED_CARS } },
+          lastMatchedAt: new Date()
+        }
+      );
+      if (result.modifiedCount === 0) continue;
+
+      await InboxService.deliver(savedSearch.user.toString(), 'savedSearchMatch', {
+        searchId: savedSearch._id,
+        searchName: savedSearch.name,
+        car: {
+          _id: car._id,
+          make: car.make,
+          model: car.model,
+          year: car.year,
+          price: car.price,
+          location: car.location,
+          images: car.images
+        },
+        message: `New match for "${savedSearch.name}": ${car.year} ${car.make} ${car.model}`,
+        timestamp: new Date()
+      });
+    }
   }
 
   // Get similar cars based on a specific car
@@ -243,11 +349,15 @@ export class SearchService {
     .lean();
   }
 
-  // Market analysis
-  static async getMarketAnalysis(make?: string, model?: string) {
-    const matchStage: any = { status: 'active' };
+  // Market analysis. Asking prices of active listings by default; pass ['sold'] for what cars sold for.
+  // `excludeCarId` leaves a listing out of its own comparables.
+  static async getMarketAnalysis(make?: string, model?: string, year?: number, statuses: string[] = ['active'], excludeCarId?: any) {
+    const matchStage: any = { status: statuses.length === 1 ? statuses[0] : { $in: statuses } };
     if (make) matchStage.make = make;
     if (model) matchStage.model = model;
+    if (year) matchStage.year = year;
+    // Aggregations don't cast, so the id has to be an ObjectId already
+    if (excludeCarId) matchStage._id = { $ne: new mongoose.Types.ObjectId(String(excludeCarId)) };
 
     const analysis = await Car.aggregate([
       { $match: matchStage },
@@ -0,0 +1,187 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Car from '../models/Car';
+import Message from '../models/Message';
+import TradeIn, { TRADE_IN_CONDITIONS } from '../models/TradeIn';
+import { InboxService } from './inboxService';
+import { MessageService } from './messageService';
+import { SearchService } from './searchService';
+import { estimateTradeInValue, MarketOverview } from './tradeInValuation';
+import { VendorNotificationService } from './vendorNotificationService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/httpErrors';
+
+export const tradeInSubmissionSchema = z.object({
+  vehicle: z.object({
+    make: z.string().trim().min(1).max(50),
+    model: z.string().trim().min(1).max(50),
+    year: z.coerce.number().int().min(1900).max(new Date().getFullYear() + 1),
+    mileage: z.coerce.number().min(0),
+    condition: z.enum(TRADE_IN_CONDITIONS),
+    photos: z.array(z.string().url()).max(10).default([])
+  }),
+  message: z.string().trim().min(1).max(2000).optional()
+});
+
+export const tradeInOfferSchema = z.object({
+  amount: z.coerce.number().min(0),
+  note: z.string().trim().max(1000).optional()
+});
+
+export const tradeInResponseSchema = z.object({
+  decision: z.enum(['accept', 'decline']),
+  note: z.string().trim().max(1000).optional()
+});
+
+type TradeInVehicle = z.infer<typeof tradeInSubmissionSchema>['vehicle'];
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatMoney = (amount: number) => `$${amount.toLocaleString('en-US')}`;
+
+const describe = (vehicle: { year?: number; make?: string; model?: string }) =>
+  `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+
+export class TradeInService {
+  // Price against same-year comparables, falling back to every year of the model
+  static async estimate(vehicle: TradeInVehicle) {
+    // Listings spell makes and models their own way ("BMW", "Model 3"); match case-insensitively
+    const listed = await Car.findOne({
+      make: new RegExp(`^${escapeRegex(vehicle.make)}$`, 'i'),
+      model: new RegExp(`^${escapeRegex(vehicle.model)}$`, 'i')
+    }).select('make model').lean();
+    const make = listed?.make ?? vehicle.make;
+    const model = listed?.model ?? vehicle.model;
+
+    const comparables = async (year?: number) => {
+      const [active, sold] = await Promise.all([
+        SearchService.getMarketAnalysis(make, model, year, ['active']),
+        SearchService.getMarketAnalysis(make, model, year, ['sold'])
+      ]);
+      return { active: active.overview as MarketOverview, sold: sold.overview as MarketOverview };
+    };
+
+    const valued = { year: vehicle.year, mileage: vehicle.mileage, condition: vehicle.condition };
+    const sameYear = await comparables(vehicle.year);
+    if (sameYear.active.totalListings || sameYear.sold.totalListings) {
+      return estimateTradeInValue(valued, { ...sameYear, sameYear: true });
+    }
+    return estimateTradeInValue(valued, { ...(await comparables()), sameYear: false });
+  }
+
+  // Open an inquiry thread on the car with the trade-in attached
+  static async submit(buyer: any, carId: string, data: z.infer<typeof tradeInSubmissionSchema>) {
+    const car = await Car.findById(carId).select('seller status make model year').lean();
+    if (!car || car.status !== 'active') {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.seller.toString() === buyer.id) {
+      throw new BadRequestError("You can't trade in toward your own listing");
+    }
+
+    const estimate = await this.estimate(data.vehicle);
+    const content = data.message ||
+      `I'd like to trade in my ${describe(data.vehicle)} (${data.vehicle.mileage.toLocaleString('en-US')} miles, ${data.vehicle.condition} condition) toward your ${describe(car)}.`;
+
+    // Save the trade-in first so a failure can't leave a thread without one. The
+    // thread is created with it attached, and the trade-in goes if that fails.
+    const tradeIn = await TradeIn.create({
+      car: car._id,
+      buyer: buyer.id,
+      vendor: car.seller,
+      message: new mongoose.Types.ObjectId(),
+      vehicle: data.vehicle,
+      estimate: estimate ?? undefined
+    });
+
+    let message;
+    try {
+      message = await MessageService.createThread(buyer, {
+        subject: `Trade-in: ${describe(data.vehicle)} toward ${describe(car)}`,
+        content,
+        carId
+      }, { _id: tradeIn.message, tradeIn: tradeIn._id });
+    } catch (error) {
+      await TradeIn.deleteOne({ _id: tradeIn._id });
+      throw error;
+    }
+
+    // A trade-in counts as an inquiry on the car
+    await Car.updateOne({ _id: car._id }, { $inc: { inquiries: 1 } });
+    await VendorNotificationService.notifyNewInquiry(car.seller.toString(), car._id.toString(), buyer.name);
+
+    return { message, tradeIn };
+  }
+
+  // Trade-in of a thread the user manages as the seller side
+  static async counterOffer(user: any, messageId: string, data: z.infer<typeof tradeInOfferSchema>) {
+    const message = await MessageService.findThreadForStaff(user, messageId);
+    const tradeIn = message?.tradeIn ? await TradeIn.findById(message.tradeIn) : null;
+    if (!message || !tradeIn) {
+      throw new NotFoundError('Trade-in not found');
+    }
+    if (tradeIn.status === 'accepted') {
+      throw new ConflictError('The buyer already accepted an offer for this trade-in');
+    }
+
+    tradeIn.offer = { amount: data.amount, note: data.note, offeredAt: new Date() };
+    tradeIn.status = 'offered';
+    tradeIn.respondedAt = undefined;
+    await tradeIn.save();
+
+    const content = [
+      `Trade-in offer: ${formatMoney(data.amount)} for your ${describe(tradeIn.vehicle)}.`,
+      data.note
+    ].filter(Boolean).join(' ');
+    const thread = await MessageService.replyAsStaff(message, content);
+
+    await InboxService.deliver(tradeIn.buyer.toString(), 'tradeInOffer', {
+      type: 'tradeIn',
+      tradeInId: tradeIn._id,
+      messageId: message._id,
+      carId: tradeIn.car,
+      amount: data.amount,
+      message: `The seller offered ${formatMoney(data.amount)} for your ${describe(tradeIn.vehicle)}`,
+      timestamp: new Date(),
+      priority: 'high'
+    });
+
+    return { tradeIn, thread };
+  }
+
+  // Buyer accepts or declines the vendor's latest offer
+  static async respond(buyer: any, messageId: string, data: z.infer<typeof tradeInResponseSchema>) {
+    const message = await Message.findOne({ _id: messageId, userId: buyer.id });
+    const tradeIn = message?.tradeIn ? await TradeIn.findById(message.tradeIn) : null;
+    if (!message || !tradeIn) {
+      throw new NotFoundError('Trade-in not found');
+    }
+    if (tradeIn.status !== 'offered' || !tradeIn.offer) {
+      throw new ConflictError('There is no open offer for this trade-in');
+    }
+
+    const accepted = data.decision === 'accept';
+    tradeIn.status = accepted ? 'accepted' : 'declined';
+    tradeIn.respondedAt = new Date();
+    await tradeIn.save();
+
+    const content = [
+      `${accepted ? 'Accepted' : 'Declined'} the ${formatMoney(tradeIn.offer.amount)} trade-in offer.`,
+      data.note
+    ].filter(Boolean).join(' ');
+    await MessageService.replyAsUser(message, content);
+
+    await InboxService.deliver(tradeIn.vendor.toString(), 'tradeInResponse', {
+      type: 'tradeIn',
+      tradeInId: tradeIn._id,
+      messageId: message._id,
+      carId: tradeIn.car,
+      decision: data.decision,
+      amount: tradeIn.offer.amount,
+      message: `${buyer.name} ${accepted ? 'accepted' : 'declined'} your ${formatMoney(tradeIn.offer.amount)} offer for their ${describe(tradeIn.vehicle)}`,
+      timestamp: new Date(),
+      priority: accepted ? 'high' : 'medium'
+    });
+
+    return tradeIn;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Trade-in valuation.
+ *
+ * Pure functions only: market figures come from the caller, so the same
+ * comparables always produce the same estimate.
+ */
+
+export interface MarketOverview {
+  totalListings?: number;
+  avgPrice?: number;
+  avgMileage?: number;
+  avgYear?: number;
+}
+
+// What the estimate needs to know about the car being traded in
+export interface TradeInVehicle {
+  year: number;
+  mileage: number;
+  condition: string;
+}
+
+export interface TradeInEstimate {
+  value: number;
+  low: number;
+  high: number;
+  confidence: 'low' | 'medium' | 'high';
+  marketPrice: number;
+  comparables: { active: number; sold: number; sameYear: boolean };
+  adjustments: Array<{ code: string; label: string; amount: number }>;
+  estimatedAt: Date;
+}
+
+// Asking prices run above what cars actually sell for
+const ASKING_PRICE_DISCOUNT = 0.05;
+// A sold listing counts as much as this many active ones
+const SOLD_WEIGHT = 2;
+const ANNUAL_DEPRECIATION = 0.08;
+// Per 1,000 miles away from the comparables' average, capped both ways
+const MILEAGE_ADJUSTMENT_PER_1000 = 0.005;
+const MAX_MILEAGE_BONUS = 0.1;
+const MAX_MILEAGE_PENALTY = 0.2;
+const CONDITION_ADJUSTMENTS: Record<string, number> = { excellent: 0.05, good: 0, fair: -0.1, poor: -0.25 };
+// Reconditioning and resale margin between retail and trade-in value
+const DEALER_MARGIN = 0.15;
+const RANGE_SPREAD = { high: 0.08, medium: 0.12, low: 0.2 };
+
+// Weighted blend of active asking prices and sold prices, adjusted for the trade-in's
+// year, mileage and condition, less the dealer's margin. Null without comparables.
+export function estimateTradeInValue(
+  vehicle: TradeInVehicle,
+  market: { active: MarketOverview; sold: MarketOverview; sameYear: boolean },
+  now = new Date()
+): TradeInEstimate | null {
+  const activeCount = market.active.totalListings || 0;
+  const soldCount = market.sold.totalListings || 0;
+  if (!activeCount && !soldCount) return null;
+
+  const activeWeight = activeCount;
+  const soldWeight = soldCount * SOLD_WEIGHT;
+  const weighted = (active?: number, sold?: number) =>
+    ((active || 0) * activeWeight + (sold || 0) * soldWeight) / (activeWeight + soldWeight);
+
+  const marketPrice = Math.round(weighted((market.active.avgPrice || 0) * (1 - ASKING_PRICE_DISCOUNT), market.sold.avgPrice));
+  const averageMileage = weighted(market.active.avgMileage, market.sold.avgMileage);
+  const averageYear = weighted(market.active.avgYear, market.sold.avgYear);
+
+  const adjustments: TradeInEstimate['adjustments'] = [];
+  let value = marketPrice;
+  const adjust = (code: string, label: string, amount: number) => {
+    amount = Math.round(amount);
+    if (amount === 0) return;
+    adjustments.push({ code, label, amount });
+    value += amount;
+  };
+
+  if (!market.sameYear) {
+    const factor = Math.pow(1 - ANNUAL_DEPRECIATION, averageYear - vehicle.year);
+    adjust('year', `Model year ${vehicle.year} vs. comparables averaging ${Math.round(averageYear)}`, value * (factor - 1));
+  }
+
+  const mileageShare = Math.max(
+    -MAX_MILEAGE_PENALTY,
+    Math.min(MAX_MILEAGE_BONUS, (averageMileage - vehicle.mileage) / 1000 * MILEAGE_ADJUSTMENT_PER_1000)
+  );
+  adjust('mileage', `${vehicle.mileage.toLocaleString('en-US')} miles vs. ${Math.round(averageMileage).toLocaleString('en-US')} average`, value * mileageShare);
+  adjust('condition', `${vehicle.condition.charAt(0).toUpperCase()}${vehicle.condition.slice(1)} condition`, value * CONDITION_ADJUSTMENTS[vehicle.condition]);
+  adjust('dealer_margin', 'Reconditioning and resale margin', -value * DEALER_MARGIN);
+
+  const total = activeCount + soldCount;
+  const confidence = market.sameYear && total >= 10 ? 'high' : total >= 3 ? 'medium' : 'low';
+  value = Math.max(0, value);
+
+  return {
+    value,
+    low: Math.round(value * (1 - RANGE_SPREAD[confidence])),
+    high: Math.round(value * (1 + RANGE_SPREAD[confidence])),
+    confidence,
+    marketPrice,
+    comparables: { active: activeCount, sold: soldCount, sameYear: market.sameYear },
+    adjustments,
+    estimatedAt: now
+  };
+}
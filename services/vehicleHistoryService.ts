@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import Car, { DAMAGE_AREAS, DAMAGE_SEVERITIES, SERVICE_TYPES } from '../models/Car';
+import { ForbiddenError, NotFoundError } from '../utils/httpErrors';
+import { roundMoney } from './rentalPricing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pastDate = z.coerce.date().refine(date => date <= new Date(), 'Date cannot be in the future');
+
+export const serviceRecordSchema = z.object({
+  date: pastDate,
+  mileage: z.coerce.number().min(0).optional(),
+  serviceType: z.enum(SERVICE_TYPES),
+  description: z.string().trim().max(1000).optional(),
+  cost: z.coerce.number().min(0).optional(),
+  serviceProvider: z.string().trim().max(200).optional()
+});
+
+export const accidentRecordSchema = z.object({
+  date: pastDate,
+  severity: z.enum(DAMAGE_SEVERITIES),
+  description: z.string().trim().max(1000).optional(),
+  damageAreas: z.array(z.enum(DAMAGE_AREAS)).optional(),
+  repairCost: z.coerce.number().min(0).optional(),
+  insuranceClaim: z.boolean().optional()
+});
+
+export type HistoryRecordKind = 'service' | 'accident';
+
+const RECORD_PATHS = {
+  service: 'serviceRecords',
+  accident: 'accidentRecords'
+} as const;
+
+// Expected maintenance rhythm; longer gaps make the history irregular
+const EXPECTED_INTERVAL_DAYS = 365;
+const EXPECTED_INTERVAL_MILES = 10000;
+
+const SEVERITY_WEIGHTS: Record<string, number> = { minor: 1, moderate: 3, major: 6 };
+const ACCIDENT_POINTS_PER_WEIGHT = 10;
+
+const TITLE_STATUS_POINTS: Record<string, number> = {
+  clean: 0,
+  other: 30,
+  rebuilt: 50,
+  lemon: 60,
+  salvage: 80,
+  flood: 80
+};
+const HIGH_WEAR_OWNERSHIP = ['rental', 'taxi-uber', 'fleet'];
+
+type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface HistoryReport {
+  vehicle: {
+    id: string;
+    make: string;
+    model: string;
+    year: number;
+    vin?: string;
+    mileage: number;
+  };
+  maintenance: {
+    recordCount: number;
+    firstServiceDate: Date | null;
+    lastServiceDate: Date | null;
+    lastServiceMileage: number | null;
+    averageIntervalDays: number | null;
+    averageIntervalMiles: number | null;
+    daysSinceLastService: number | null;
+    milesSinceLastService: number | null;
+    overdue: boolean;
+    rating: 'no-records' | 'insufficient-data' | 'regular' | 'irregular';
+  };
+  costs: {
+    serviceCost: number;
+    accidentRepairCost: number;
+    totalRepairCost: number;
+    byServiceType: Record<string, number>;
+  };
+  accidents: {
+    count: number;
+    bySeverity: Record<string, number>;
+    insuranceClaims: number;
+    lastAccidentDate: Date | null;
+    score: number;
+    level: 'none' | RiskLevel;
+  };
+  title: {
+    titleStatus: string;
+    previousOwners: number;
+    ownershipType: string | null;
+    score: number;
+    level: RiskLevel;
+    factors: string[];
+  };
+  serviceRecords: any[];
+  accidentRecords: any[];
+  generatedAt: Date;
+}
+
+const average = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const byDate = (a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+const riskLevel = (score: number): RiskLevel => score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low';
+
+function summarizeMaintenance(car: any, records: any[], now: Date): HistoryReport['maintenance'] {
+  // Inspections aren't maintenance
+  const services = records.filter(record => record.serviceType !== 'inspection' && record.date).sort(byDate);
+  const last = services[services.length - 1];
+
+  const intervalsDays: number[] = [];
+  const intervalsMiles: number[] = [];
+  services.slice(1).forEach((record, index) => {
+    const previous = services[index];
+    intervalsDays.push((new Date(record.date).getTime() - new Date(previous.date).getTime()) / DAY_MS);
+    if (record.mileage != null && previous.mileage != null && record.mileage >= previous.mileage) {
+      intervalsMiles.push(record.mileage - previous.mileage);
+    }
+  });
+
+  const averageIntervalDays = average(intervalsDays);
+  const averageIntervalMiles = average(intervalsMiles);
+  const daysSinceLastService = last ? Math.floor((now.getTime() - new Date(last.date).getTime()) / DAY_MS) : null;
+  const milesSinceLastService = last?.mileage != null && car.mileage >= last.mileage
+    ? car.mileage - last.mileage
+    : null;
+  const overdue = !!last && (
+    daysSinceLastService! > EXPECTED_INTERVAL_DAYS ||
+    (milesSinceLastService ?? 0) > EXPECTED_INTERVAL_MILES
+  );
+
+  let rating: HistoryReport['maintenance']['rating'] = 'irregular';
+  if (services.length === 0) {
+    rating = 'no-records';
+  } else if (services.length === 1) {
+    rating = 'insufficient-data';
+  } else if (
+    averageIntervalDays! <= EXPECTED_INTERVAL_DAYS &&
+    (averageIntervalMiles == null || averageIntervalMiles <= EXPECTED_INTERVAL_MILES)
+  ) {
+    rating = 'regular';
+  }
+
+  return {
+    recordCount: services.length,
+    firstServiceDate: services[0]?.date ?? null,
+    lastServiceDate: last?.date ?? null,
+    lastServiceMileage: last?.mileage ?? null,
+    averageIntervalDays,
+    averageIntervalMiles,
+    daysSinceLastService,
+    milesSinceLastService,
+    overdue,
+    rating
+  };
+}
+
+function summarizeCosts(services: any[], accidents: any[]): HistoryReport['costs'] {
+  const byServiceType: Record<string, number> = {};
+  services.forEach(record => {
+    if (!record.cost) return;
+    const type = record.serviceType || 'other';
+    byServiceType[type] = roundMoney((byServiceType[type] || 0) + record.cost);
+  });
+
+  const serviceCost = roundMoney(services.reduce((sum, record) => sum + (record.cost || 0), 0));
+  const accidentRepairCost = roundMoney(accidents.reduce((sum, record) => sum + (record.repairCost || 0), 0));
+
+  return {
+    serviceCost,
+    accidentRepairCost,
+    totalRepairCost: roundMoney(serviceCost + accidentRepairCost),
+    byServiceType
+  };
+}
+
+// Minor accidents count 1, moderate 3 and major 6; each point is worth 10 on a 0-100 scale
+function summarizeAccidents(accidents: any[]): HistoryReport['accidents'] {
+  const bySeverity: Record<string, number> = { minor: 0, moderate: 0, major: 0 };
+  let weight = 0;
+  accidents.forEach(record => {
+    const severity = record.severity || 'minor';
+    bySeverity[severity] = (bySeverity[severity] || 0) + 1;
+    weight += SEVERITY_WEIGHTS[severity] ?? 1;
+  });
+
+  const score = Math.min(100, weight * ACCIDENT_POINTS_PER_WEIGHT);
+  const latest = [...accidents].filter(record => record.date).sort(byDate).pop();
+
+  return {
+    count: accidents.length,
+    bySeverity,
+    insuranceClaims: accidents.filter(record => record.insuranceClaim).length,
+    lastAccidentDate: latest?.date ?? null,
+    score,
+    level: accidents.length ? riskLevel(score) : 'none'
+  };
+}
+
+function summarizeTitle(history: any): HistoryReport['title'] {
+  const titleStatus = history.titleStatus || 'clean';
+  const previousOwners = history.previousOwners || 1;
+  const ownershipType = history.ownershipType || null;
+  const factors: string[] = [];
+  let score = TITLE_STATUS_POINTS[titleStatus] ?? 0;
+
+  if (titleStatus !== 'clean') {
+    factors.push(`${titleStatus} title`);
+  }
+  if (previousOwners >= 4) {
+    score += 15;
+    factors.push(`${previousOwners} previous owners`);
+  }
+  if (HIGH_WEAR_OWNERSHIP.includes(ownershipType)) {
+    score += 10;
+    factors.push(`Used as a ${ownershipType} vehicle`);
+  }
+
+  score = Math.min(100, score);
+  return { titleStatus, previousOwners, ownershipType, score, level: riskLevel(score), factors };
+}
+
+// Pure summary of a car's ownership history; `now` is injectable for stable output
+export function buildHistoryReport(car: any, now = new Date()): HistoryReport {
+  const history = car.ownershipHistory || {};
+  const serviceRecords = [...(history.serviceRecords || [])].sort(byDate);
+  const accidentRecords = [...(history.accidentRecords || [])].sort(byDate);
+
+  return {
+    vehicle: {
+      id: car._id.toString(),
+      make: car.make,
+      model: car.model,
+      year: car.year,
+      vin: history.vin,
+      mileage: car.mileage
+    },
+    maintenance: summarizeMaintenance(car, serviceRecords, now),
+    costs: summarizeCosts(serviceRecords, accidentRecords),
+    accidents: summarizeAccidents(accidentRecords),
+    title: summarizeTitle(history),
+    serviceRecords,
+    accidentRecords,
+    generatedAt: now
+  };
+}
+
+export class VehicleHistoryService {
+  // Cars with a public page; moderated-away listings have no history to show
+  private static async findListedCar(carId: string) {
+    const car = await Car.findById(carId).lean();
+    if (!car || car.status === 'removed') {
+      throw new NotFoundError('Car not found');
+    }
+    return car;
+  }
+
+  private static async findOwnedCar(userId: string, carId: string) {
+    const car = await Car.findById(carId);
+    if (!car) {
+      throw new NotFoundError('Car not found');
+    }
+    if (car.seller.toString() !== userId) {
+      throw new ForbiddenError('Not authorized');
+    }
+    return car;
+  }
+
+  private static findRecord(car: any, kind: HistoryRecordKind, recordId: string) {
+    const record = car.ownershipHistory[RECORD_PATHS[kind]].id(recordId);
+    if (!record) {
+      throw new NotFoundError(`${kind === 'service' ? 'Service' : 'Accident'} record not found`);
+    }
+    return record;
+  }
+
+  static async listRecords(carId: string, kind: HistoryRecordKind) {
+    const car = await this.findListedCar(carId);
+    return [...(car.ownershipHistory?.[RECORD_PATHS[kind]] || [])].sort(byDate);
+  }
+
+  static async addRecord(userId: string, carId: string, kind: HistoryRecordKind, data: Record<string, any>) {
+    const car = await this.findOwnedCar(userId, carId);
+    const records: any = car.ownershipHistory[RECORD_PATHS[kind]];
+    records.push(data);
+    await car.save();
+    return records[records.length - 1];
+  }
+
+  static async updateRecord(userId: string, carId: string, kind: HistoryRecordKind, recordId: string, data: Record<string, any>) {
+    const car = await this.findOwnedCar(userId, carId);
+    const record = this.findRecord(car, kind, recordId);
+    record.set(data);
+    await car.save();
+    return record;
+  }
+
+  static async deleteRecord(userId: string, carId: string, kind: HistoryRecordKind, recordId: string) {
+    const car = await this.findOwnedCar(userId, carId);
+    this.findRecord(car, kind, recordId).deleteOne();
+    await car.save();
+  }
+
+  static async getReport(carId: string) {
+    const car = await this.findListedCar(carId);
+    return buildHistoryReport(car);
+  }
+}
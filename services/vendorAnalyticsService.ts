@@ -1,6 +1,10 @@
+import mongoose from 'mongoose';
 import Car from '../models/Car';
 import User from '../models/User';
 
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class VendorAnalyticsService {
   // Generate comprehensive vendor report
   static async generateVendorReport(vendorId: string, period: number = 30) {
@@ -91,12 +95,13 @@ export class VendorAnalyticsService {
   }
 
   // Sales performance metrics
-  private static async getSalesPerformance(vendorId: string, startDate: Date) {
+  private static async getSalesPerformance(vendorId: string, startDate: Date, endDate: Date = new Date()) {
+    const seller = this.toObjectId(vendorId);
     const salesData = await Car.aggregate([
       {
         $match: {
-          seller: vendorId,
-          soldAt: { $gte: startDate }
+          seller,
+          soldAt: { $gte: startDate, $lte: endDate }
         }
       },
       {
@@ -123,7 +128,7 @@ export class VendorAnalyticsService {
     ]);
 
     const conversionFunnel = await Car.aggregate([
-      { $match: { seller: vendorId, listedAt: { $gte: startDate } } },
+      { $match: { seller, listedAt: { $gte: startDate, $lte: endDate } } },
       {
         $group: {
           _id: null,
@@ -232,26 +237,7 @@ export class VendorAnalyticsService {
       }
     ]);
 
-    const revenueByPeriod = await Car.aggregate([
-      {
-        $match: {
-          seller: vendorId,
-          soldAt: { $gte: startDate }
-        }
-      },
-      {
-        $group: {
-          _id: {
-            year: { $year: '$soldAt' },
-            month: { $month: '$soldAt' }
-          },
-          revenue: { $sum: '$price' },
-          count: { $sum: 1 },
-          avgSalePrice: { $avg: '$price' }
-        }
-      },
-      { $sort: { '_id.year': 1, '_id.month': 1 } }
-    ]);
+    const revenueByPeriod = await this.getRevenueByMonth(vendorId, startDate, new Date());
 
     const profitMargins = await Car.aggregate([
       {
@@ -289,6 +275,130 @@ export class VendorAnalyticsService {
     };
   }
 
+  // Revenue and sales grouped by the month cars were sold in
+  private static async getRevenueByMonth(vendorId: string, startDate: Date, endDate: Date) {
+    return Car.aggregate([
+      {
+        $match: {
+          seller: this.toObjectId(vendorId),
+          status: 'sold',
+          soldAt: { $gte: startDate, $lte: endDate }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            year: { $year: '$soldAt' },
+            month: { $month: '$soldAt' }
+          },
+          revenue: { $sum: '$price' },
+          count: { $sum: 1 },
+          avgSalePrice: { $avg: '$price' }
+        }
+      },
+      { $sort: { '_id.year': 1, '_id.month': 1 } }
+    ]);
+  }
+
+  // Sales report for the dashboard's Reports page over an arbitrary date range
+  static async generateSalesReport(vendorId: string, from: Date, to: Date) {
+    const seller = this.toObjectId(vendorId);
+    // Cars that were on the lot at some point during the range
+    const activeDuringRange = {
+      seller,
+      listedAt: { $lte: to },
+      $or: [{ soldAt: null }, { soldAt: { $gte: from } }]
+    };
+
+    const [revenueByMonth, engagement, topPerformingCars, inventory] = await Promise.all([
+      this.getRevenueByMonth(vendorId, from, to),
+
+      Car.aggregate([
+        { $match: activeDuringRange },
+        {
+          $group: {
+            _id: null,
+            totalViews: { $sum: '$views' },
+            totalInquiries: { $sum: '$inquiries' }
+          }
+        }
+      ]),
+
+      Car.find(activeDuringRange)
+        .sort({ views: -1, inquiries: -1 })
+        .limit(5)
+        .select('make model year price views inquiries status listedAt soldAt')
+        .lean(),
+
+      Car.find({ seller, status: 'active', listedAt: { $lte: to } })
+        .sort({ listedAt: 1 })
+        .limit(10)
+        .select('make model year price views inquiries status listedAt')
+        .lean()
+    ]);
+
+    const totalRevenue = revenueByMonth.reduce((sum, item) => sum + item.revenue, 0);
+    const totalSales = revenueByMonth.reduce((sum, item) => sum + item.count, 0);
+    const { totalViews = 0, totalInquiries = 0 } = engagement[0] || {};
+
+    // Fill in months without sales so charts get a continuous series
+    const salesByMonth = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+    while (cursor <= to) {
+      const year = cursor.getUTCFullYear();
+      const month = cursor.getUTCMonth() + 1;
+      const entry = revenueByMonth.find(item => item._id.year === year && item._id.month === month);
+      salesByMonth.push({
+        month: MONTH_NAMES[month - 1],
+        year,
+        sales: entry?.count || 0,
+        revenue: entry?.revenue || 0
+      });
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+
+    return {
+      period: { from, to },
+      summary: {
+        totalRevenue,
+        totalSales,
+        avgSalePrice: totalSales > 0 ? Math.round(totalRevenue / totalSales) : 0,
+        totalViews,
+        totalInquiries,
+        conversionRate: totalInquiries > 0 ? Math.round((totalSales / totalInquiries) * 1000) / 10 : 0
+      },
+      salesByMonth,
+      topPerformingCars: topPerformingCars.map(car => ({
+        _id: car._id,
+        make: car.make,
+        model: car.model,
+        year: car.year,
+        price: car.price,
+        views: car.views,
+        inquiries: car.inquiries,
+        status: car.status,
+        listedDate: car.listedAt,
+        soldDate: car.soldAt
+      })),
+      inventoryReport: inventory.map(car => ({
+        _id: car._id,
+        make: car.make,
+        model: car.model,
+        year: car.year,
+        price: car.price,
+        daysListed: Math.floor((to.getTime() - new Date(car.listedAt).getTime()) / DAY_MS),
+        views: car.views,
+        inquiries: car.inquiries,
+        status: car.status
+      }))
+    };
+  }
+
+  // Aggregation $match doesn't cast strings, so seller ids need converting
+  private static toObjectId(id: string) {
+    return new mongoose.Types.ObjectId(id);
+  }
+
   // Generate AI-powered recommendations
   private static async generateRecommendations(vendorId: string) {
     const recommendations = [];
@@ -1,5 +1,5 @@
-import { getIO, emitToUser } from '../socket';
 import Car from '../models/Car';
+import { InboxService } from './inboxService';
 
 export class VendorNotificationService {
   // Notify vendor about new inquiry
@@ -7,7 +7,7 @@ export class VendorNotificationService {
     const car = await Car.findById(carId).select('make model year price').lean();
     if (!car) return;
 
-    emitToUser(vendorId, 'newInquiry', {
+    await InboxService.deliver(vendorId, 'newInquiry', {
       type: 'inquiry',
       carId,
       car,
@@ -41,7 +41,7 @@ export class VendorNotificationService {
         break;
     }
 
-    emitToUser(vendorId, 'performanceMilestone', {
+    await InboxService.deliver(vendorId, 'performanceMilestone', {
       type: 'milestone',
       carId,
       car,
@@ -76,7 +76,7 @@ export class VendorNotificationService {
         break;
     }
 
-    emitToUser(vendorId, 'inventoryAlert', {
+    await InboxService.deliver(vendorId, 'inventoryAlert', {
       type: 'alert',
       alertType,
       data,
@@ -110,7 +110,7 @@ export class VendorNotificationService {
         break;
     }
 
-    emitToUser(vendorId, 'salesAchievement', {
+    await InboxService.deliver(vendorId, 'salesAchievement', {
       type: 'achievement',
       achievement,
       data,
@@ -122,7 +122,7 @@ export class VendorNotificationService {
 
   // Notify about market insights
   static async notifyMarketInsight(vendorId: string, insight: any) {
-    emitToUser(vendorId, 'marketInsight', {
+    await InboxService.deliver(vendorId, 'marketInsight', {
       type: 'insight',
       insight,
       message: insight.message,
@@ -204,7 +204,7 @@ export class VendorNotificationService {
       date: today.toDateString()
     };
 
-    emitToUser(vendorId, 'dailySummary', {
+    await InboxService.deliver(vendorId, 'dailySummary', {
       type: 'summary',
       summary,
       message: 'Your daily performance summary is ready',
@@ -232,7 +232,7 @@ export class VendorNotificationService {
       priority = 'low';
     }
 
-    emitToUser(vendorId, 'pricingAlert', {
+    await InboxService.deliver(vendorId, 'pricingAlert', {
       type: 'pricing',
       carId,
       car,
@@ -247,14 +247,12 @@ export class VendorNotificationService {
 
   // Batch notifications for multiple vendors
   static async sendBatchNotification(vendorIds: string[], notification: any) {
-    const io = getIO();
-    
-    vendorIds.forEach(vendorId => {
-      io.to(`user_${vendorId}`).emit('batchNotification', {
+    await Promise.all(vendorIds.map(vendorId =>
+      InboxService.deliver(vendorId, 'batchNotification', {
         ...notification,
         timestamp: new Date()
-      });
-    });
+      })
+    ));
   }
 
   // Schedule periodic notifications
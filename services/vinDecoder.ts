@@ -0,0 +1,245 @@
+/**
+ * Offline VIN decoder (ISO 3779 / 49 CFR 565).
+ *
+ * Pure functions only: no network or database access. Manufacturer and plant
+ * tables cover the common makes on the marketplace; unknown codes decode to null
+ * rather than failing.
+ */
+
+export interface VinDecodeResult {
+  vin: string;
+  valid: boolean;
+  errors: string[];
+  wmi: string;
+  region: string | null;
+  country: string | null;
+  manufacturer: string | null;
+  // Makes sold under this WMI; several for groups such as Stellantis or GM
+  makes: string[];
+  checkDigit: {
+    expected: string;
+    actual: string;
+    valid: boolean;
+    // Mandatory for vehicles built for North America only
+    required: boolean;
+  };
+  modelYear: number | null;
+  modelYearCandidates: number[];
+  plant: {
+    code: string;
+    name: string | null;
+  };
+  serialNumber: string;
+}
+
+interface Manufacturer {
+  name: string;
+  makes: string[];
+}
+
+const VIN_LENGTH = 17;
+const VIN_CHARACTERS = /^[A-HJ-NPR-Z0-9]+$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 codes in order; the sequence repeats every 30 years from 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_CYCLE_START = 1980;
+
+const ford: Manufacturer = { name: 'Ford Motor Company', makes: ['Ford', 'Lincoln'] };
+const gm: Manufacturer = { name: 'General Motors', makes: ['Chevrolet', 'GMC', 'Buick', 'Cadillac'] };
+const stellantis: Manufacturer = { name: 'Stellantis (FCA US)', makes: ['Chrysler', 'Dodge', 'Jeep', 'Ram'] };
+const honda: Manufacturer = { name: 'Honda', makes: ['Honda'] };
+const acura: Manufacturer = { name: 'Honda', makes: ['Acura'] };
+const toyota: Manufacturer = { name: 'Toyota', makes: ['Toyota'] };
+const lexus: Manufacturer = { name: 'Toyota', makes: ['Lexus'] };
+const nissan: Manufacturer = { name: 'Nissan', makes: ['Nissan'] };
+const bmw: Manufacturer = { name: 'BMW', makes: ['BMW'] };
+const mercedes: Manufacturer = { name: 'Mercedes-Benz', makes: ['Mercedes-Benz'] };
+const volkswagen: Manufacturer = { name: 'Volkswagen', makes: ['Volkswagen'] };
+const hyundai: Manufacturer = { name: 'Hyundai', makes: ['Hyundai'] };
+const kia: Manufacturer = { name: 'Kia', makes: ['Kia'] };
+const subaru: Manufacturer = { name: 'Subaru', makes: ['Subaru'] };
+const mazda: Manufacturer = { name: 'Mazda', makes: ['Mazda'] };
+const tesla: Manufacturer = { name: 'Tesla', makes: ['Tesla'] };
+
+// World manufacturer identifiers (positions 1-3). Two-character keys match any
+// third character.
+const WMI_TABLE: Record<string, Manufacturer> = {
+  '1F': ford, '2F': ford, '3F': ford, '1L': ford, '5L': ford,
+  '1G': gm, '2G': gm, '3G': gm, 'KL': gm,
+  '1C': stellantis, '2C': stellantis, '3C': stellantis, '1J': stellantis, '1B': stellantis, '2B': stellantis, '3D': stellantis,
+  '1HG': honda, '2HG': honda, '5FN': honda, '5J6': honda, '19X': honda, '7FA': honda, 'JHM': honda, 'SHH': honda,
+  '19U': acura, '5J8': acura, 'JH4': acura,
+  '4T1': toyota, '4T3': toyota, '4T4': toyota, '5TD': toyota, '5TF': toyota, '2T1': toyota, '2T3': toyota,
+  '3TM': toyota, '7MU': toyota, 'JTD': toyota, 'JTE': toyota, 'JTM': toyota, 'JTN': toyota, 'JT2': toyota, 'JT3': toyota,
+  'JTH': lexus, 'JTJ': lexus, '2T2': lexus, '58A': lexus,
+  '1N4': nissan, '1N6': nissan, '3N1': nissan, '3N6': nissan, '5N1': nissan, 'JN1': nissan, 'JN8': nissan,
+  'WBA': bmw, 'WBS': bmw, 'WBX': bmw, 'WBY': bmw, '5UX': bmw, '5YM': bmw,
+  'WDB': mercedes, 'WDC': mercedes, 'WDD': mercedes, 'W1K': mercedes, 'W1N': mercedes, '4JG': mercedes, '55S': mercedes,
+  'WVW': volkswagen, 'WVG': volkswagen, '1VW': volkswagen, '3VW': volkswagen,
+  'WAU': { name: 'Audi', makes: ['Audi'] }, 'WA1': { name: 'Audi', makes: ['Audi'] },
+  'WP0': { name: 'Porsche', makes: ['Porsche'] }, 'WP1': { name: 'Porsche', makes: ['Porsche'] },
+  'KMH': hyundai, 'KM8': hyundai, '5NP': hyundai, '5NM': hyundai,
+  'KNA': kia, 'KND': kia, '5XX': kia, '5XY': kia,
+  'JF1': subaru, 'JF2': subaru, '4S3': subaru, '4S4': subaru,
+  'JM1': mazda, 'JM3': mazda, '3MZ': mazda, '3MV': mazda,
+  'JA3': { name: 'Mitsubishi', makes: ['Mitsubishi'] }, 'JA4': { name: 'Mitsubishi', makes: ['Mitsubishi'] },
+  'YV1': { name: 'Volvo Cars', makes: ['Volvo'] }, 'YV4': { name: 'Volvo Cars', makes: ['Volvo'] },
+  'SAL': { name: 'Jaguar Land Rover', makes: ['Land Rover'] }, 'SAJ': { name: 'Jaguar Land Rover', makes: ['Jaguar'] },
+  'ZFF': { name: 'Ferrari', makes: ['Ferrari'] },
+  'ZAR': { name: 'Alfa Romeo', makes: ['Alfa Romeo'] },
+  '5YJ': tesla, '7SA': tesla, '7G2': tesla, 'LRW': tesla, 'XP7': tesla
+};
+
+// Assembly plant (position 11) codes are assigned by each manufacturer
+const PLANT_TABLE: Record<string, Record<string, string>> = {
+  Tesla: { F: 'Fremont, California', A: 'Austin, Texas', C: 'Shanghai, China', B: 'Grünheide, Germany' }
+};
+
+// Country of origin by the first one or two characters
+const COUNTRY_TABLE: Array<[RegExp, string, string]> = [
+  [/^[145]/, 'North America', 'United States'],
+  [/^2/, 'North America', 'Canada'],
+  [/^3[A-W]/, 'North America', 'Mexico'],
+  [/^7[A-E]/, 'Oceania', 'New Zealand'],
+  [/^7[F-Z0-9]/, 'North America', 'United States'],
+  [/^6/, 'Oceania', 'Australia'],
+  [/^9[A-E3-9]/, 'South America', 'Brazil'],
+  [/^J/, 'Asia', 'Japan'],
+  [/^K[L-R]/, 'Asia', 'South Korea'],
+  [/^L/, 'Asia', 'China'],
+  [/^M[A-E]/, 'Asia', 'India'],
+  [/^S[A-M]/, 'Europe', 'United Kingdom'],
+  [/^V[F-R]/, 'Europe', 'France'],
+  [/^V[S-W]/, 'Europe', 'Spain'],
+  [/^W/, 'Europe', 'Germany'],
+  [/^X[S-W3-9]/, 'Europe', 'Russia'],
+  [/^Y[S-W]/, 'Europe', 'Sweden'],
+  [/^Z[A-R]/, 'Europe', 'Italy']
+];
+
+const REGIONS: Array<[RegExp, string]> = [
+  [/^[A-H]/, 'Africa'],
+  [/^[J-R]/, 'Asia'],
+  [/^[S-Z]/, 'Europe'],
+  [/^[1-5]/, 'North America'],
+  [/^6/, 'Oceania'],
+  [/^[89]/, 'South America']
+];
+
+export const normalizeVin = (vin: string) => vin.trim().toUpperCase().replace(/[\s-]/g, '');
+
+// Weighted sum of the transliterated characters, mod 11; 10 is written as X
+export function calculateCheckDigit(vin: string) {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+export function lookupManufacturer(wmi: string): Manufacturer | null {
+  return WMI_TABLE[wmi] ?? WMI_TABLE[wmi.slice(0, 2)] ?? null;
+}
+
+// Position 10 repeats every 30 years. For North American passenger vehicles a
+// letter in position 7 means the 2010-2039 cycle and a digit 1980-2009; elsewhere
+// the most recent year that isn't in the future is only a guess.
+export function decodeModelYear(vin: string, northAmerican: boolean, currentYear = new Date().getFullYear()) {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) {
+    return { modelYear: null, candidates: [] };
+  }
+
+  const candidates = [MODEL_YEAR_CYCLE_START + index, MODEL_YEAR_CYCLE_START + 30 + index]
+    .filter(year => year <= currentYear + 1);
+  if (northAmerican) {
+    const laterCycle = /[A-Z]/.test(vin[6]);
+    const year = MODEL_YEAR_CYCLE_START + index + (laterCycle ? 30 : 0);
+    return candidates.includes(year)
+      ? { modelYear: year, candidates: [year] }
+      : { modelYear: null, candidates };
+  }
+  return { modelYear: candidates.length ? Math.max(...candidates) : null, candidates };
+}
+
+export function decodeVin(input: string, currentYear = new Date().getFullYear()): VinDecodeResult {
+  const vin = normalizeVin(input);
+  const errors: string[] = [];
+
+  if (vin.length !== VIN_LENGTH) {
+    errors.push(`VIN must be ${VIN_LENGTH} characters`);
+  }
+  if (!VIN_CHARACTERS.test(vin)) {
+    errors.push('VIN may only contain digits and letters other than I, O and Q');
+  }
+
+  const wmi = vin.slice(0, 3);
+  const [, region, country] = COUNTRY_TABLE.find(([pattern]) => pattern.test(vin)) ??
+    [null, REGIONS.find(([pattern]) => pattern.test(vin))?.[1] ?? null, null];
+  const northAmerican = region === 'North America';
+  const manufacturer = lookupManufacturer(wmi);
+
+  const expected = errors.length ? '' : calculateCheckDigit(vin);
+  const checkDigitValid = !errors.length && expected === vin[8];
+  if (!errors.length && !checkDigitValid && northAmerican) {
+    errors.push(`Check digit is ${vin[8]}, expected ${expected}`);
+  }
+
+  const { modelYear, candidates } = errors.length
+    ? { modelYear: null, candidates: [] }
+    : decodeModelYear(vin, northAmerican, currentYear);
+  const plantCode = vin[10] ?? '';
+  const plantName = manufacturer?.makes
+    .map(make => PLANT_TABLE[make]?.[plantCode])
+    .find(Boolean) ?? null;
+
+  return {
+    vin,
+    valid: errors.length === 0,
+    errors,
+    wmi,
+    region,
+    country,
+    manufacturer: manufacturer?.name ?? null,
+    makes: manufacturer?.makes ?? [],
+    checkDigit: {
+      expected,
+      actual: vin[8] ?? '',
+      valid: checkDigitValid,
+      required: northAmerican
+    },
+    modelYear,
+    modelYearCandidates: candidates,
+    plant: { code: plantCode, name: plantName },
+    serialNumber: vin.slice(11)
+  };
+}
+
+// Differences between what a listing claims and what its VIN encodes, in the
+// same shape as validation error details
+export function findVinMismatches(decoded: VinDecodeResult, listing: { make?: string; year?: number }) {
+  const issues: Array<{ path: string[]; message: string }> = [];
+
+  if (listing.make && decoded.makes.length &&
+      !decoded.makes.some(make => make.toLowerCase() === listing.make!.trim().toLowerCase())) {
+    issues.push({
+      path: ['make'],
+      message: `VIN belongs to ${decoded.makes.join(' / ')}, not ${listing.make}`
+    });
+  }
+  if (listing.year && decoded.modelYearCandidates.length && !decoded.modelYearCandidates.includes(listing.year)) {
+    issues.push({
+      path: ['year'],
+      message: `VIN encodes model year ${decoded.modelYearCandidates.join(' or ')}, not ${listing.year}`
+    });
+  }
+  return issues;
+}
@@ -1,6 +1,12 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
-import jwt from 'jsonwebtoken';
+import { PriceAlertService, priceAlertSchema } from './services/priceAlertService';
+import { InboxService } from './services/inboxService';
+import { MessageService, messageCreateSchema } from './services/messageService';
+import User from './models/User';
+import { HttpError } from './utils/httpErrors';
+import { AuthTokenService } from './services/authTokenService';
+import { NotificationPreferenceService, NotificationPreferences } from './services/notificationPreferenceService';
 
 let io: SocketIOServer;
 
@@ -17,7 +23,7 @@ export const initializeSocket = (server: HTTPServer) => {
   });
 
   // Authentication middleware for socket connections
-  io.use((socket, next) => {
+  io.use(async (socket, next) => {
     const token = socket.handshake.auth.token;
     
     if (!token) {
@@ -25,8 +31,13 @@ export const initializeSocket = (server: HTTPServer) => {
     }
 
     try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      socket.data.user = decoded;
+      // Revoked sessions are treated like invalid tokens
+      const payload = await AuthTokenService.verifyAccessToken(token);
+      if (payload) {
+        socket.data.user = payload;
+        socket.data.sessionId = payload.sid;
+        socket.data.preferences = await NotificationPreferenceService.getPreferences(payload.id);
+      }
       next();
     } catch (error) {
       next();  // Continue without auth if token is invalid
@@ -40,6 +51,11 @@ export const initializeSocket = (server: HTTPServer) => {
     if (socket.data.user) {
       socket.join(`user_${socket.data.user.id}`);
       console.log(`User ${socket.data.user.id} joined personal room`);
+
+      // Let reconnecting users know what they missed while offline
+      InboxService.getUnreadCount(socket.data.user.id)
+        .then(count => socket.emit('unreadNotifications', { count }))
+        .catch(error => console.error('Unread count error:', error));
     }
 
     // Join location-based rooms for local listings
@@ -70,14 +86,39 @@ export const initializeSocket = (server: HTTPServer) => {
     });
 
     // Handle message events
-    socket.on('sendMessage', (messageData) => {
-      console.log('Message received:', messageData);
-      // Broadcast to all admin users
-      socket.broadcast.emit('newMessage', messageData);
+    socket.on('sendMessage', async (messageData) => {
+      if (!socket.data.user) {
+        socket.emit('messageError', { message: 'Login to send message' });
+        return;
+      }
+
+      const parsed = messageCreateSchema.safeParse(messageData);
+      if (!parsed.success) {
+        socket.emit('messageError', { message: 'Invalid message', errors: parsed.error.errors });
+        return;
+      }
+
+      try {
+        const user = await User.findById(socket.data.user.id);
+        if (!user) {
+          socket.emit('messageError', { message: 'Login to send message' });
+          return;
+        }
+
+        // Persists the thread and delivers it to the seller and platform staff only
+        const message = await MessageService.createThread(user, parsed.data);
+        socket.emit('messageSent', { id: message._id });
+      } catch (error: any) {
+        const known = error instanceof HttpError;
+        if (!known) console.error('Socket message error:', error);
+        socket.emit('messageError', {
+          message: known ? error.message : 'Failed to send message'
+        });
+      }
     });
 
     socket.on('joinAdminRoom', () => {
-      if (socket.data.user && socket.data.user.role === 'vendor') {
+      if (socket.data.user && socket.data.user.role === 'admin') {
         socket.join('admins');
         console.log(`Admin ${socket.data.user.id} joined admin room`);
       }
@@ -91,15 +132,30 @@ export const initializeSocket = (server: HTTPServer) => {
     });
 
     // Handle price alerts
-    socket.on('setPriceAlert', (alert: { 
+    socket.on('setPriceAlert', async (alert: { 
       make: string; 
       model: string; 
       maxPrice: number; 
       location?: string 
     }) => {
-      if (socket.data.user) {
-        socket.join(`priceAlert_${socket.data.user.id}`);
+      if (!socket.data.user) {
+        socket.emit('priceAlertError', { message: 'Login to set price alerts' });
+        return;
+      }
+
+      const parsed = priceAlertSchema.safeParse(alert);
+      if (!parsed.success) {
+        socket.emit('priceAlertError', { message: 'Invalid price alert', errors: parsed.error.errors });
+        return;
+      }
+
+      try {
+        const saved = await PriceAlertService.createAlert(socket.data.user.id, parsed.data);
+        socket.emit('priceAlertSet', saved);
         console.log(`Price alert set for user ${socket.data.user.id}`);
+      } catch (error) {
+        console.error('Price alert error:', error);
+        socket.emit('priceAlertError', { message: 'Failed to set price alert' });
       }
     });
 
@@ -119,13 +175,50 @@ export const getIO = (): SocketIOServer => {
 };
 
 // Helper functions for emitting events
+
+// Emit to every socket (or every socket in a room) whose owner hasn't muted the event
+export const emitToSubscribers = async (event: string, data: any, room?: string) => {
+  const sockets = room ? await io.in(room).fetchSockets() : await io.fetchSockets();
+  const now = new Date();
+
+  sockets.forEach(socket => {
+    if (NotificationPreferenceService.allowsLive(socket.data.preferences, event, now)) {
+      socket.emit(event, data);
+    }
+  });
+};
+
+// Keep connected sockets in sync after a user changes their preferences
+export const refreshSocketPreferences = async (userId: string, preferences: NotificationPreferences) => {
+  const sockets = await io.in(`user_${userId}`).fetchSockets();
+  sockets.forEach(socket => {
+    socket.data.preferences = preferences;
+  });
+};
+
+// Drop live connections for a logged-out session, or every session of the user
+export const disconnectSessions = async (userId: string, sessionId?: string) => {
+  const sockets = await io.in(`user_${userId}`).fetchSockets();
+  sockets
+    .filter(socket => !sessionId || socket.data.sessionId === sessionId)
+    .forEach(socket => socket.disconnect(true));
+};
+
+// Drop every live connection of the user except those of the given session
+export const disconnectOtherSessions = async (userId: string, keepSessionId?: string) => {
+  const sockets = await io.in(`user_${userId}`).fetchSockets();
+  sockets
+    .filter(socket => socket.data.sessionId !== keepSessionId)
+    .forEach(socket => socket.disconnect(true));
+};
+
 export const emitToLocation = (city: string, state: string, event: string, data: any) => {
   const roomName = `${city}_${state}`.toLowerCase();
-  io.to(roomName).emit(event, data);
+  return emitToSubscribers(event, data, roomName);
 };
 
 export const emitToMakeInterests = (make: string, event: string, data: any) => {
-  io.to(`make_${make.toLowerCase()}`).emit(event, data);
+  return emitToSubscribers(event, data, `make_${make.toLowerCase()}`);
 };
 
 export const emitToUser = (userId: string, event: string, data: any) => {
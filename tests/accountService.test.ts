@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import User from '../models/User';
+import { AccountService } from '../services/accountService';
+import { AuthTokenService } from '../services/authTokenService';
+import { MailService } from '../services/mailService';
+
+const user = { _id: '65a000000000000000000001', email: 'owner@example.com', name: 'Owner' };
+
+describe('AccountService.requestPasswordReset', () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('emails a new link without ending sessions', async () => {
+    const find = mock.method(User, 'findOneAndUpdate', async () => user);
+    const store = mock.method(User, 'updateOne', async () => ({}));
+    const revoke = mock.method(AuthTokenService, 'revokeAllSessions', async () => {});
+    const send = mock.method(MailService, 'sendPasswordResetEmail', async () => {});
+
+    assert.equal(await AccountService.requestPasswordReset(user.email), user);
+
+    assert.equal(revoke.mock.callCount(), 0);
+    assert.equal(send.mock.callCount(), 1);
+
+    // The stored id is what makes earlier links stop working
+    const [filter, update] = store.mock.calls[0].arguments as any[];
+    const token = send.mock.calls[0].arguments[1] as string;
+    const payload = jwt.verify(token, 'test-secret', { audience: 'password_reset' }) as jwt.JwtPayload;
+    assert.deepEqual(filter, { _id: user._id });
+    assert.equal(update.$set.passwordResetTokenId, payload.jti);
+
+    // Only accounts without a request in the last minute are picked
+    const [query] = find.mock.calls[0].arguments as any[];
+    assert.equal(query.email, user.email);
+    assert.ok(Date.now() - query.$or[1].passwordResetRequestedAt.$lte.getTime() >= 60 * 1000);
+  });
+
+  it('sends nothing for unknown or recently reset accounts', async () => {
+    mock.method(User, 'findOneAndUpdate', async () => null);
+    const revoke = mock.method(AuthTokenService, 'revokeAllSessions', async () => {});
+    const send = mock.method(MailService, 'sendPasswordResetEmail', async () => {});
+
+    assert.equal(await AccountService.requestPasswordReset(user.email), null);
+    assert.equal(revoke.mock.callCount(), 0);
+    assert.equal(send.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareCars, compareQuerySchema, compareShareSchema } from '../services/comparisonService';
+
+const ACCORD = '65a000000000000000000001';
+const MODEL_3 = '65a000000000000000000002';
+const assumptions = { annualMiles: 12000, years: 5, fuelPrice: 3.5, electricityPrice: 0.16 };
+
+const accord = {
+  _id: ACCORD,
+  make: 'Honda',
+  model: 'Accord',
+  year: 2020,
+  price: 25000,
+  fuelType: 'gasoline',
+  enginePerformance: { horsepower: 200, fuelEconomy: { city: 26, highway: 34 } },
+  ownershipHistory: {
+    serviceRecords: [
+      { date: new Date('2022-01-10'), serviceType: 'oil-change', mileage: 20000 },
+      { date: new Date('2022-09-10'), serviceType: 'oil-change', mileage: 27000 },
+      { date: new Date('2023-02-01'), serviceType: 'inspection', mileage: 30000 }
+    ]
+  }
+};
+
+const model3 = {
+  _id: MODEL_3,
+  make: 'Tesla',
+  model: 'Model 3',
+  year: 2020,
+  price: 40000,
+  fuelType: 'electric',
+  enginePerformance: { horsepower: 350, fuelEconomy: { combined: 120 } },
+  ownershipHistory: { titleStatus: 'rebuilt' }
+};
+
+const field = (result: ReturnType<typeof compareCars>, key: string) =>
+  result.fields.find(candidate => candidate.key === key)!;
+
+describe('compareCars', () => {
+  const result = compareCars([accord, model3], assumptions);
+
+  it('lists values in car order', () => {
+    assert.deepEqual(result.cars.map(car => car.id), [ACCORD, MODEL_3]);
+    assert.deepEqual(field(result, 'price').values, [25000, 40000]);
+    assert.deepEqual(field(result, 'fuelEconomyCombined').values, [30, 120]);
+  });
+
+  it('derives price per horsepower and fuel cost', () => {
+    assert.deepEqual(field(result, 'pricePerHorsepower').values, [125, 114.29]);
+    assert.deepEqual(field(result, 'annualFuelCost').values, [1400, 539.2]);
+    assert.deepEqual(field(result, 'totalCostOfOwnership').values, [32000, 42696]);
+    assert.deepEqual(result.summary.lowestPricePerHorsepower, [MODEL_3]);
+    assert.deepEqual(result.summary.lowestTotalCostOfOwnership, [ACCORD]);
+  });
+
+  it('leaves inspections out of the service record count', () => {
+    assert.deepEqual(field(result, 'serviceRecords').values, [2, 0]);
+  });
+
+  it('only picks a best value when values differ', () => {
+    assert.deepEqual(field(result, 'year').best, []);
+    assert.deepEqual(field(result, 'titleRiskScore').best, [ACCORD]);
+    assert.deepEqual(field(result, 'engine').best, []);
+  });
+
+  it('counts wins per car', () => {
+    const wins = result.fields.flatMap(candidate => candidate.best);
+    assert.equal(result.summary.wins[ACCORD], wins.filter(id => id === ACCORD).length);
+    assert.equal(result.summary.wins[MODEL_3], wins.filter(id => id === MODEL_3).length);
+  });
+});
+
+describe('compare request schemas', () => {
+  it('drops duplicate ids', () => {
+    assert.deepEqual(compareQuerySchema.parse({ ids: `${ACCORD}, ${MODEL_3},${ACCORD}` }).ids, [ACCORD, MODEL_3]);
+    assert.deepEqual(compareShareSchema.parse({ ids: [ACCORD, MODEL_3, ACCORD] }).ids, [ACCORD, MODEL_3]);
+  });
+
+  it('needs 2 to 4 distinct cars', () => {
+    assert.throws(() => compareQuerySchema.parse({ ids: `${ACCORD},${ACCORD}` }), /at least 2/);
+    assert.throws(() => compareShareSchema.parse({ ids: [ACCORD, 'not-an-id'] }), /Invalid car id/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildAmortizationSchedule,
+  calculateAmountFinanced,
+  calculateLoan,
+  calculateMonthlyPayment
+} from '../services/financeCalculator';
+
+const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+describe('calculateMonthlyPayment', () => {
+  it('matches the standard amortization formula', () => {
+    assert.equal(calculateMonthlyPayment(20000, 6, 60), 386.66);
+    assert.equal(calculateMonthlyPayment(23000, 3.9, 60), 422.54);
+  });
+
+  it('splits the principal evenly at 0% APR', () => {
+    assert.equal(calculateMonthlyPayment(10000, 0, 36), 277.78);
+  });
+});
+
+describe('calculateAmountFinanced', () => {
+  it('subtracts the down payment and trade-in equity', () => {
+    assert.equal(calculateAmountFinanced({ price: 25000, downPayment: 3000, tradeInValue: 4000, tradeInPayoff: 2000, apr: 6, termMonths: 60 }), 20000);
+  });
+
+  it('rolls negative equity into the loan', () => {
+    assert.equal(calculateAmountFinanced({ price: 25000, downPayment: 0, tradeInValue: 3000, tradeInPayoff: 5000, apr: 6, termMonths: 60 }), 27000);
+  });
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('pays the balance down to exactly zero', () => {
+    for (const [principal, apr, term] of [[20000, 6, 60], [10000, 0, 36], [12345.67, 7.49, 72], [999.99, 19.9, 12]]) {
+      const schedule = buildAmortizationSchedule(principal, apr, term);
+      assert.equal(schedule.length, term);
+      assert.equal(schedule[schedule.length - 1].balance, 0);
+      assert.equal(sum(schedule.map(row => row.principal)), principal);
+    }
+  });
+
+  it('lets the last payment absorb the rounding', () => {
+    const schedule = buildAmortizationSchedule(20000, 6, 60);
+    assert.deepEqual(schedule[0], { month: 1, payment: 386.66, principal: 286.66, interest: 100, balance: 19713.34 });
+    assert.ok(schedule.slice(0, -1).every(row => row.payment === 386.66));
+    assert.deepEqual(schedule[59], { month: 60, payment: 386.41, principal: 384.49, interest: 1.92, balance: 0 });
+  });
+
+  it('keeps every row consistent', () => {
+    buildAmortizationSchedule(12345.67, 7.49, 72).forEach(row => {
+      assert.equal(Math.round((row.principal + row.interest) * 100) / 100, row.payment);
+    });
+  });
+
+  it('has no interest at 0% APR', () => {
+    const schedule = buildAmortizationSchedule(10000, 0, 36);
+    assert.ok(schedule.every(row => row.interest === 0));
+    assert.equal(schedule[35].payment, 277.7);
+  });
+});
+
+describe('calculateLoan', () => {
+  it('totals the schedule', () => {
+    const quote = calculateLoan({ price: 25000, downPayment: 3000, tradeInValue: 4000, tradeInPayoff: 2000, apr: 6, termMonths: 60 });
+
+    assert.equal(quote.tradeInEquity, 2000);
+    assert.equal(quote.amountFinanced, 20000);
+    assert.equal(quote.monthlyPayment, 386.66);
+    assert.equal(quote.totalInterest, 3199.35);
+    assert.equal(quote.totalOfPayments, 23199.35);
+    assert.equal(quote.totalCost, 28199.35);
+    assert.equal(quote.totalOfPayments, sum(quote.schedule.map(row => row.payment)));
+  });
+});
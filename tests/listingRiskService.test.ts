@@ -0,0 +1,68 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Car from '../models/Car';
+import { ListingRiskService } from '../services/listingRiskService';
+
+const reason = (code: string, points: number) => ({ code, message: code, points });
+const highRisk = { score: 60, level: 'high' as const, reasons: [reason('duplicate_vin', 40), reason('contact_in_description', 20)], assessedAt: new Date() };
+
+// A saved listing whose stored assessment is `stored`
+const listing = (stored: any) => {
+  mock.method(Car, 'findById', () => ({ select: () => ({ lean: async () => ({ riskAssessment: stored }) }) }));
+  return { _id: '65a000000000000000000001', isNew: false, status: 'active' } as any;
+};
+
+const clearance = { ...highRisk, clearedAt: new Date(), clearedScore: 60, clearedReasons: ['duplicate_vin', 'contact_in_description'] };
+
+describe('ListingRiskService.screen', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends a high-risk active listing for review', async () => {
+    mock.method(ListingRiskService, 'assess', async () => highRisk);
+    const car = listing(highRisk);
+
+    const { flagged } = await ListingRiskService.screen(car);
+
+    assert.equal(flagged, true);
+    assert.equal(car.status, 'under_review');
+    assert.equal(car.moderation.previousStatus, 'active');
+  });
+
+  it('leaves a listing an admin cleared at the same risk', async () => {
+    mock.method(ListingRiskService, 'assess', async () => highRisk);
+    const car = listing(clearance);
+
+    const { flagged } = await ListingRiskService.screen(car);
+
+    assert.equal(flagged, false);
+    assert.equal(car.status, 'active');
+    assert.equal(car.riskAssessment.clearedScore, 60);
+  });
+
+  it('flags a cleared listing again for a higher score or a new reason', async () => {
+    mock.method(ListingRiskService, 'assess', async () => ({ ...highRisk, score: 80, reasons: [...highRisk.reasons, reason('reused_images', 25)] }));
+    assert.equal((await ListingRiskService.screen(listing(clearance))).flagged, true);
+
+    mock.restoreAll();
+    mock.method(ListingRiskService, 'assess', async () => ({ ...highRisk, reasons: [reason('duplicate_vin', 40), reason('mileage_too_high', 20)] }));
+    assert.equal((await ListingRiskService.screen(listing(clearance))).flagged, true);
+  });
+});
+
+describe('ListingRiskService.clear', () => {
+  it('records the current score and reasons', () => {
+    const car: any = { riskAssessment: highRisk, set(path: string, value: any) { this[path] = value; } };
+    ListingRiskService.clear(car, 'admin-id');
+
+    assert.equal(car.riskAssessment.clearedBy, 'admin-id');
+    assert.equal(car.riskAssessment.clearedScore, 60);
+    assert.deepEqual(car.riskAssessment.clearedReasons, ['duplicate_vin', 'contact_in_description']);
+  });
+
+  it('skips listings that were never scored', () => {
+    const car: any = { set: () => assert.fail('should not change the car') };
+    ListingRiskService.clear(car, 'admin-id');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateFuelCharge,
+  calculateMileageCharge,
+  calculateRentalQuote,
+  countRentalDays,
+  findLengthOfStayDiscount,
+  findSeason,
+  MAX_RENTAL_DAYS
+} from '../services/rentalPricing';
+
+const utc = (value: string) => new Date(`${value}T10:00:00Z`);
+
+describe('countRentalDays', () => {
+  it('counts started 24h periods', () => {
+    assert.equal(countRentalDays(utc('2024-01-01'), utc('2024-01-04')), 3);
+    assert.equal(countRentalDays(new Date('2024-01-01T10:00:00Z'), new Date('2024-01-02T11:00:00Z')), 2);
+  });
+
+  it('charges at least one day', () => {
+    assert.equal(countRentalDays(new Date('2024-01-01T10:00:00Z'), new Date('2024-01-01T12:00:00Z')), 1);
+  });
+});
+
+describe('findSeason', () => {
+  const seasons = [
+    { name: 'Summer', start: '06-01', end: '08-31', multiplier: 1.3 },
+    { name: 'Holidays', start: '12-20', end: '01-05', multiplier: 1.5 }
+  ];
+
+  it('matches inclusive ranges', () => {
+    assert.equal(findSeason(utc('2024-06-01'), seasons)?.name, 'Summer');
+    assert.equal(findSeason(utc('2024-08-31'), seasons)?.name, 'Summer');
+    assert.equal(findSeason(utc('2024-09-01'), seasons), undefined);
+  });
+
+  it('wraps the new year', () => {
+    assert.equal(findSeason(utc('2024-12-31'), seasons)?.name, 'Holidays');
+    assert.equal(findSeason(utc('2025-01-05'), seasons)?.name, 'Holidays');
+    assert.equal(findSeason(utc('2025-01-06'), seasons), undefined);
+  });
+});
+
+describe('findLengthOfStayDiscount', () => {
+  it('picks the largest tier that is met', () => {
+    const tiers = [{ minDays: 7, percent: 10 }, { minDays: 30, percent: 20 }];
+    assert.equal(findLengthOfStayDiscount(6, tiers), undefined);
+    assert.equal(findLengthOfStayDiscount(7, tiers)?.percent, 10);
+    assert.equal(findLengthOfStayDiscount(45, tiers)?.percent, 20);
+  });
+});
+
+describe('calculateMileageCharge', () => {
+  it('is unlimited without an allowance', () => {
+    assert.deepEqual(calculateMileageCharge({ mileage: { includedPerDay: null } }, 3, 5000), {
+      included: null,
+      overageMiles: 0,
+      overageCharge: 0
+    });
+  });
+
+  it('charges miles over the allowance', () => {
+    assert.deepEqual(calculateMileageCharge({ mileage: { includedPerDay: 100, overageRate: 0.25 } }, 3, 450), {
+      included: 300,
+      overageMiles: 150,
+      overageCharge: 37.5
+    });
+  });
+});
+
+describe('calculateFuelCharge', () => {
+  it('charges only for a lower return level', () => {
+    assert.equal(calculateFuelCharge({ fuel: { chargePerEighth: 15 } }, 8, 5).charge, 45);
+    assert.equal(calculateFuelCharge({ fuel: { chargePerEighth: 15 } }, 4, 8).charge, 0);
+  });
+});
+
+describe('calculateRentalQuote', () => {
+  const rules = {
+    baseDailyRate: 65,
+    weekendMultiplier: 1.2,
+    weekendDays: [5, 6],
+    lengthOfStayDiscounts: [{ minDays: 7, percent: 10 }],
+    mileage: { includedPerDay: 100, overageRate: 0.25 },
+    oneWayFee: 75,
+    taxRate: 8
+  };
+
+  it('prices weekends, overage, one-way fee and tax', () => {
+    // Friday to Monday
+    const quote = calculateRentalQuote(rules, {
+      pickupDate: utc('2024-01-19'),
+      returnDate: utc('2024-01-22'),
+      estimatedMiles: 450,
+      oneWay: true
+    });
+
+    assert.equal(quote.days, 3);
+    assert.deepEqual(quote.dailyBreakdown.map(day => day.rate), [78, 78, 65]);
+    assert.equal(quote.subtotal, 221);
+    assert.equal(quote.discount, 0);
+    assert.equal(quote.fees, 112.5);
+    assert.equal(quote.tax, 26.68);
+    assert.equal(quote.total, 360.18);
+  });
+
+  it('applies the length-of-stay discount before tax', () => {
+    const quote = calculateRentalQuote({ baseDailyRate: 50, weekendDays: [], lengthOfStayDiscounts: [{ minDays: 7, percent: 10 }], taxRate: 10 }, {
+      pickupDate: utc('2024-03-04'),
+      returnDate: utc('2024-03-11')
+    });
+
+    assert.equal(quote.subtotal, 350);
+    assert.equal(quote.discount, 35);
+    assert.equal(quote.tax, 31.5);
+    assert.equal(quote.total, 346.5);
+  });
+
+  it('rejects a return before pickup', () => {
+    assert.throws(() => calculateRentalQuote(rules, { pickupDate: utc('2024-01-22'), returnDate: utc('2024-01-19') }));
+  });
+
+  it('caps the rental length', () => {
+    const pickupDate = utc('2024-01-01');
+    const longest = new Date(pickupDate.getTime() + MAX_RENTAL_DAYS * 24 * 60 * 60 * 1000);
+    assert.equal(calculateRentalQuote(rules, { pickupDate, returnDate: longest }).days, MAX_RENTAL_DAYS);
+    assert.throws(
+      () => calculateRentalQuote(rules, { pickupDate, returnDate: new Date(longest.getTime() + 1) }),
+      /limited to/
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchService } from '../services/searchService';
+
+const car = {
+  status: 'active',
+  make: 'Toyota',
+  model: 'Camry',
+  year: 2021,
+  price: 24000,
+  mileage: 30000,
+  condition: 'used',
+  fuelType: 'hybrid',
+  transmission: 'automatic',
+  bodyType: 'sedan',
+  enginePerformance: { drivetrain: 'fwd' },
+  location: { city: 'Los Angeles', state: 'CA' },
+  featured: false
+};
+
+describe('SearchService.buildMatchStage', () => {
+  it('matches text filters literally', () => {
+    const stage = SearchService.buildMatchStage({ make: '(a+)+$', city: 'St. Louis' });
+    assert.equal(stage.make.source, '\\(a\\+\\)\\+\\$');
+    assert.ok(stage['location.city'].test('st. louis'));
+    assert.ok(!stage['location.city'].test('Stx Louis'));
+  });
+
+  it('does not throw on malformed patterns', () => {
+    assert.doesNotThrow(() => SearchService.buildMatchStage({ model: '[unclosed' }));
+  });
+});
+
+describe('SearchService.matchesFilters', () => {
+  it('matches like the database query', () => {
+    assert.ok(SearchService.matchesFilters(car, {}));
+    assert.ok(SearchService.matchesFilters(car, { make: 'toy', city: 'los', minPrice: 20000, maxPrice: 24000, drivetrain: 'fwd' }));
+    assert.ok(SearchService.matchesFilters(car, { minYear: 2021, maxMileage: 30000, bodyType: 'sedan', featured: 'false' }));
+  });
+
+  it('rejects cars outside any filter', () => {
+    assert.ok(!SearchService.matchesFilters(car, { make: 'honda' }));
+    assert.ok(!SearchService.matchesFilters(car, { maxPrice: 23999 }));
+    assert.ok(!SearchService.matchesFilters(car, { minYear: 2022 }));
+    assert.ok(!SearchService.matchesFilters(car, { bodyType: 'suv' }));
+    assert.ok(!SearchService.matchesFilters(car, { featured: 'true' }));
+    assert.ok(!SearchService.matchesFilters({ ...car, status: 'under_review' }, {}));
+  });
+
+  it('treats regex characters as text', () => {
+    assert.ok(!SearchService.matchesFilters(car, { make: 'T.y' }));
+    assert.ok(SearchService.matchesFilters({ ...car, model: 'C-HR (AWD)' }, { model: 'c-hr (awd' }));
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTradeInValue } from '../services/tradeInValuation';
+
+const vehicle = { year: 2020, mileage: 40000, condition: 'good' };
+const market = {
+  active: { totalListings: 4, avgPrice: 20000, avgMileage: 40000, avgYear: 2020 },
+  sold: { totalListings: 3, avgPrice: 18000, avgMileage: 40000, avgYear: 2020 },
+  sameYear: true
+};
+const now = new Date('2026-01-01T00:00:00Z');
+
+describe('estimateTradeInValue', () => {
+  it('needs comparables', () => {
+    assert.equal(estimateTradeInValue(vehicle, { active: {}, sold: {}, sameYear: false }, now), null);
+  });
+
+  it('weights sold prices over discounted asking prices', () => {
+    const estimate = estimateTradeInValue(vehicle, market, now)!;
+
+    assert.equal(estimate.marketPrice, 18400);
+    assert.deepEqual(estimate.adjustments, [
+      { code: 'dealer_margin', label: 'Reconditioning and resale margin', amount: -2760 }
+    ]);
+    assert.equal(estimate.value, 15640);
+    assert.equal(estimate.confidence, 'medium');
+    assert.equal(estimate.low, 13763);
+    assert.equal(estimate.high, 17517);
+    assert.deepEqual(estimate.comparables, { active: 4, sold: 3, sameYear: true });
+    assert.equal(estimate.estimatedAt, now);
+  });
+
+  it('depreciates against other model years', () => {
+    const estimate = estimateTradeInValue({ ...vehicle, year: 2018 }, { ...market, sameYear: false }, now)!;
+    const year = estimate.adjustments.find(adjustment => adjustment.code === 'year')!;
+
+    assert.equal(year.amount, Math.round(18400 * (0.92 ** 2 - 1)));
+    assert.equal(estimate.confidence, 'medium');
+  });
+
+  it('caps the mileage adjustment', () => {
+    const high = estimateTradeInValue({ ...vehicle, mileage: 200000 }, market, now)!;
+    const low = estimateTradeInValue({ ...vehicle, mileage: 0 }, market, now)!;
+
+    assert.equal(high.adjustments.find(adjustment => adjustment.code === 'mileage')!.amount, -3680);
+    assert.equal(low.adjustments.find(adjustment => adjustment.code === 'mileage')!.amount, 1840);
+  });
+
+  it('adjusts for condition', () => {
+    const poor = estimateTradeInValue({ ...vehicle, condition: 'poor' }, market, now)!;
+    assert.deepEqual(poor.adjustments[0], { code: 'condition', label: 'Poor condition', amount: -4600 });
+  });
+
+  it('is confident with many same-year comparables', () => {
+    const busy = { ...market, active: { ...market.active, totalListings: 12 } };
+    assert.equal(estimateTradeInValue(vehicle, busy, now)!.confidence, 'high');
+    assert.equal(estimateTradeInValue(vehicle, { ...busy, sameYear: false }, now)!.confidence, 'medium');
+  });
+});
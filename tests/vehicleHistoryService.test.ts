@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildHistoryReport } from '../services/vehicleHistoryService';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const car = {
+  _id: '65a000000000000000000001',
+  make: 'Toyota',
+  model: 'Camry',
+  year: 2019,
+  mileage: 52000,
+  ownershipHistory: {
+    vin: '4T1B11HK5KU000000',
+    titleStatus: 'rebuilt',
+    previousOwners: 4,
+    ownershipType: 'rental',
+    serviceRecords: [
+      { date: new Date('2024-01-01T00:00:00Z'), mileage: 42000, serviceType: 'oil-change', cost: 60 },
+      { date: new Date('2023-01-01T00:00:00Z'), mileage: 30000, serviceType: 'oil-change', cost: 50 },
+      { date: new Date('2024-03-01T00:00:00Z'), mileage: 45000, serviceType: 'inspection' },
+      { date: new Date('2023-07-01T00:00:00Z'), mileage: 36000, serviceType: 'brake-service', cost: 450 }
+    ],
+    accidentRecords: [
+      { date: new Date('2022-05-01T00:00:00Z'), severity: 'moderate', repairCost: 1200, insuranceClaim: true },
+      { date: new Date('2023-03-01T00:00:00Z'), severity: 'minor', repairCost: 300 }
+    ]
+  }
+};
+
+describe('buildHistoryReport', () => {
+  const report = buildHistoryReport(car, now);
+
+  it('sorts records by date', () => {
+    assert.deepEqual(report.serviceRecords.map(record => record.mileage), [30000, 36000, 42000, 45000]);
+    assert.equal(report.vehicle.vin, '4T1B11HK5KU000000');
+    assert.equal(report.generatedAt, now);
+  });
+
+  it('summarizes maintenance without inspections', () => {
+    assert.deepEqual(report.maintenance, {
+      recordCount: 3,
+      firstServiceDate: new Date('2023-01-01T00:00:00Z'),
+      lastServiceDate: new Date('2024-01-01T00:00:00Z'),
+      lastServiceMileage: 42000,
+      averageIntervalDays: 183,
+      averageIntervalMiles: 6000,
+      daysSinceLastService: 152,
+      milesSinceLastService: 10000,
+      overdue: false,
+      rating: 'regular'
+    });
+  });
+
+  it('totals costs by service type', () => {
+    assert.deepEqual(report.costs, {
+      serviceCost: 560,
+      accidentRepairCost: 1500,
+      totalRepairCost: 2060,
+      byServiceType: { 'oil-change': 110, 'brake-service': 450 }
+    });
+  });
+
+  it('scores accidents by severity', () => {
+    assert.equal(report.accidents.count, 2);
+    assert.deepEqual(report.accidents.bySeverity, { minor: 1, moderate: 1, major: 0 });
+    assert.equal(report.accidents.insuranceClaims, 1);
+    assert.deepEqual(report.accidents.lastAccidentDate, new Date('2023-03-01T00:00:00Z'));
+    assert.equal(report.accidents.score, 40);
+    assert.equal(report.accidents.level, 'medium');
+  });
+
+  it('scores title risk', () => {
+    assert.equal(report.title.score, 75);
+    assert.equal(report.title.level, 'high');
+    assert.deepEqual(report.title.factors, ['rebuilt title', '4 previous owners', 'Used as a rental vehicle']);
+  });
+
+  it('flags overdue maintenance', () => {
+    const driven = buildHistoryReport({ ...car, mileage: 52001 }, now);
+    assert.equal(driven.maintenance.overdue, true);
+    assert.equal(driven.maintenance.rating, 'regular');
+  });
+
+  it('handles a car without history', () => {
+    const empty = buildHistoryReport({ _id: car._id, make: 'Toyota', model: 'Camry', year: 2019, mileage: 1000 }, now);
+
+    assert.equal(empty.maintenance.rating, 'no-records');
+    assert.equal(empty.maintenance.overdue, false);
+    assert.equal(empty.accidents.level, 'none');
+    assert.deepEqual(empty.title, { titleStatus: 'clean', previousOwners: 1, ownershipType: null, score: 0, level: 'low', factors: [] });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateCheckDigit,
+  decodeModelYear,
+  decodeVin,
+  findVinMismatches,
+  normalizeVin
+} from '../services/vinDecoder';
+
+describe('normalizeVin', () => {
+  it('upper-cases and drops spaces and dashes', () => {
+    assert.equal(normalizeVin(' 1hgcm-8263 3a004352 '), '1HGCM82633A004352');
+  });
+});
+
+describe('calculateCheckDigit', () => {
+  it('matches known VINs', () => {
+    assert.equal(calculateCheckDigit('1HGCM82633A004352'), '3');
+    assert.equal(calculateCheckDigit('1M8GDM9AXKP042788'), 'X');
+  });
+});
+
+describe('decodeModelYear', () => {
+  it('uses position 7 to pick the cycle for North American VINs', () => {
+    assert.deepEqual(decodeModelYear('1HGCM82633A004352', true, 2026), { modelYear: 2003, candidates: [2003] });
+    assert.deepEqual(decodeModelYear('1HGCV1F30LA000000', true, 2026), { modelYear: 2020, candidates: [2020] });
+  });
+
+  it('leaves out future years', () => {
+    assert.deepEqual(decodeModelYear('JH4KA7561YC008269', false, 2026), { modelYear: 2000, candidates: [2000] });
+  });
+
+  it('keeps both cycles elsewhere', () => {
+    assert.deepEqual(decodeModelYear('JH4KA7561PC008269', false, 2026), { modelYear: 2023, candidates: [1993, 2023] });
+  });
+
+  it('has no year for an unknown code', () => {
+    assert.deepEqual(decodeModelYear('1HGCM8263UA004352', true, 2026), { modelYear: null, candidates: [] });
+  });
+});
+
+describe('decodeVin', () => {
+  it('decodes a North American VIN', () => {
+    const decoded = decodeVin('1HGCM82633A004352', 2026);
+    assert.equal(decoded.valid, true);
+    assert.equal(decoded.region, 'North America');
+    assert.deepEqual(decoded.makes, ['Honda']);
+    assert.deepEqual(decoded.checkDigit, { expected: '3', actual: '3', valid: true, required: true });
+    assert.deepEqual(decoded.modelYearCandidates, [2003]);
+    assert.equal(decoded.serialNumber, '004352');
+  });
+
+  it('rejects a wrong check digit only in North America', () => {
+    const northAmerican = decodeVin('1HGCM82643A004352', 2026);
+    assert.equal(northAmerican.valid, false);
+    assert.deepEqual(northAmerican.errors, ['Check digit is 4, expected 3']);
+
+    const japanese = decodeVin('JH4KA7561PC008269', 2026);
+    assert.equal(japanese.valid, true);
+    assert.equal(japanese.checkDigit.required, false);
+  });
+
+  it('rejects malformed VINs', () => {
+    assert.equal(decodeVin('1HGCM82633A00435', 2026).valid, false);
+    assert.equal(decodeVin('1HGCM82633AO04352', 2026).valid, false);
+  });
+});
+
+describe('findVinMismatches', () => {
+  const decoded = decodeVin('JH4KA7561PC008269', 2026);
+
+  it('accepts any candidate year', () => {
+    assert.deepEqual(findVinMismatches(decoded, { year: 1993 }), []);
+    assert.deepEqual(findVinMismatches(decoded, { year: 2023 }), []);
+  });
+
+  it('reports a year outside the candidates', () => {
+    const issues = findVinMismatches(decoded, { year: 2005 });
+    assert.deepEqual(issues, [{ path: ['year'], message: 'VIN encodes model year 1993 or 2023, not 2005' }]);
+  });
+});
@@ -0,0 +1,8 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// Forward errors from async route handlers to the error middleware
+export const asyncHandler = (
+  handler: (req: any, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(handler(req, res, next)).catch(next);
+};
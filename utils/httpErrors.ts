@@ -0,0 +1,56 @@
+/**
+ * Errors that map to an HTTP response.
+ *
+ * Throw these from routes or services; the error middleware turns them into
+ * `{ code, message, details, requestId }` with the matching status. Anything
+ * else thrown is reported to the client as a generic 500.
+ */
+export class HttpError extends Error {
+  status: number;
+  code: string;
+  details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message = 'Bad request', details?: unknown) {
+    super(400, 'BAD_REQUEST', message, details);
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message = 'Invalid input', details?: unknown) {
+    super(400, 'VALIDATION_ERROR', message, details);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Authentication required', details?: unknown) {
+    super(401, 'UNAUTHORIZED', message, details);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Insufficient permissions', details?: unknown) {
+    super(403, 'FORBIDDEN', message, details);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found', details?: unknown) {
+    super(404, 'NOT_FOUND', message, details);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', details?: unknown) {
+    super(409, 'CONFLICT', message, details);
+  }
+}